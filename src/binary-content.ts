@@ -0,0 +1,166 @@
+import { existsSync, mkdirSync, realpathSync, writeFileSync } from 'fs';
+import { basename, extname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { FortnoxEndpoint } from './openapi-parser.js';
+import { loadConfig } from './config.js';
+
+/**
+ * A file returned by the API, e.g. an invoice PDF
+ */
+export interface BinaryContent {
+  bytes: Buffer;
+  mimeType: string;
+  /** From the Content-Disposition header, when the server sent one */
+  filename?: string;
+  size: number;
+}
+
+const TEXT_MIME_TYPES = [/^text\//, /json/, /xml/, /javascript/, /x-www-form-urlencoded/];
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'application/zip': '.zip',
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'text/csv': '.csv',
+  'text/plain': '.txt',
+};
+
+/**
+ * Media type for a file name, from its extension
+ */
+export function mimeTypeForFilename(filename: string): string {
+  const extension = extname(filename).toLowerCase();
+  const match = Object.entries(EXTENSIONS).find(([, ext]) => ext === extension || (ext === '.jpg' && extension === '.jpeg'));
+  return match ? match[0] : 'application/octet-stream';
+}
+
+/**
+ * File extension for a media type, .bin when unknown
+ */
+export function extensionForMimeType(mimeType: string): string {
+  return EXTENSIONS[mimeType.split(';')[0].trim().toLowerCase()] || '.bin';
+}
+
+/**
+ * Whether a media type carries bytes rather than text
+ */
+export function isBinaryMimeType(mimeType: string): boolean {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  return type !== '' && !TEXT_MIME_TYPES.some(pattern => pattern.test(type));
+}
+
+/**
+ * Whether the spec declares a file as the success response: a binary media type, or a
+ * byte/binary string schema for a wildcard one such as the archive downloads
+ */
+export function declaresBinaryResponse(endpoint: FortnoxEndpoint): boolean {
+  const contentType = endpoint.responseContentType;
+  if (!contentType || contentType.includes('*')) {
+    const format = endpoint.responseSchema?.format;
+    return endpoint.responseSchema?.type === 'string' && (format === 'byte' || format === 'binary');
+  }
+  return isBinaryMimeType(contentType);
+}
+
+export function isBinaryContent(value: unknown): value is BinaryContent {
+  return typeof value === 'object' && value !== null && Buffer.isBuffer((value as BinaryContent).bytes);
+}
+
+/**
+ * The filename of a Content-Disposition header, preferring the RFC 5987 filename* form
+ */
+export function parseContentDispositionFilename(header: string | null): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const extended = header.match(/filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2].trim());
+    } catch {
+      // Malformed percent-encoding, fall back to the plain filename
+    }
+  }
+
+  const plain = header.match(/filename\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]+))/i);
+  const filename = plain?.[1]?.replace(/\\(.)/g, '$1') ?? plain?.[2]?.trim();
+  return filename || undefined;
+}
+
+/**
+ * Directory for downloaded files from FORTNOX_DOWNLOAD_DIR or the config file, undefined when none is configured
+ */
+export function getDownloadDir(): string | undefined {
+  if (process.env.FORTNOX_DOWNLOAD_DIR) {
+    return resolve(process.env.FORTNOX_DOWNLOAD_DIR);
+  }
+  return loadConfig().downloadDir;
+}
+
+/**
+ * Directory upload_file may read files from, from FORTNOX_UPLOAD_DIR or the config file, undefined when none is configured
+ */
+export function getUploadDir(): string | undefined {
+  if (process.env.FORTNOX_UPLOAD_DIR) {
+    return resolve(process.env.FORTNOX_UPLOAD_DIR);
+  }
+  return loadConfig().uploadDir;
+}
+
+/**
+ * The real path of a file to upload, which must lie inside directory once symlinks are resolved
+ * Relative paths are taken relative to directory.
+ */
+export function resolveUploadPath(filePath: string, directory: string): string {
+  let root: string;
+  try {
+    root = realpathSync(directory);
+  } catch {
+    throw new Error(`Upload directory not found: ${directory}`);
+  }
+
+  const outside = (path: string) => {
+    const relativePath = relative(root, path);
+    return relativePath === '' || relativePath === '..' || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath);
+  };
+  const requested = resolve(root, filePath);
+  if (outside(requested)) {
+    throw new Error(`${filePath} is outside the upload directory ${root}`);
+  }
+
+  let file: string;
+  try {
+    file = realpathSync(requested);
+  } catch {
+    throw new Error(`File not found in the upload directory: ${filePath}`);
+  }
+  if (outside(file)) {
+    throw new Error(`${filePath} is outside the upload directory ${root}`);
+  }
+  return file;
+}
+
+/**
+ * Write a file into directory without overwriting existing files, returning its path
+ * The name comes from the server's filename (stripped of any directories) or fallbackName.
+ */
+export function saveBinaryContent(content: BinaryContent, directory: string, fallbackName: string): string {
+  const name = sanitizeFilename(content.filename || '') || `${sanitizeFilename(fallbackName) || 'download'}${extensionForMimeType(content.mimeType)}`;
+  const dot = name.lastIndexOf('.');
+  const [stem, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+
+  mkdirSync(directory, { recursive: true });
+  let file = join(directory, name);
+  for (let n = 1; existsSync(file); n++) {
+    file = join(directory, `${stem}-${n}${extension}`);
+  }
+
+  writeFileSync(file, content.bytes);
+  return resolve(file);
+}
+
+function sanitizeFilename(name: string): string {
+  return basename(name.replace(/\\/g, '/')).replace(/[^\w.\- ]+/g, '_').replace(/^\.+/, '');
+}
@@ -0,0 +1,294 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { isBinaryMimeType } from './binary-content.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+/** Parts of a request compared when looking for its recorded response */
+export type CassetteMatchField = 'method' | 'path' | 'query' | 'body';
+
+export const DEFAULT_MATCH_ON: CassetteMatchField[] = ['method', 'path', 'query'];
+const MATCH_FIELDS: CassetteMatchField[] = ['method', 'path', 'query', 'body'];
+
+export interface CassetteOptions {
+  file: string;
+  mode: CassetteMode;
+  /** Default: method, path and query */
+  matchOn?: CassetteMatchField[];
+}
+
+/**
+ * A body as stored in the cassette: JSON as is, other text as a string and anything else as base64,
+ * so files such as PDFs survive the round trip byte for byte
+ */
+export type RecordedBody = { json: unknown } | { text: string } | { base64: string };
+
+export interface CassetteEntry {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: RecordedBody;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body?: RecordedBody;
+  };
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+const REDACTED = '<redacted>';
+const SENSITIVE_REQUEST_HEADERS = ['authorization', 'access-token', 'client-secret', 'cookie'];
+const SENSITIVE_RESPONSE_HEADERS = ['set-cookie'];
+// The Response constructor rejects a body for these
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+// Clients configured with the same cassette append to and replay from one instance
+const sharedCassettes = new Map<string, Cassette>();
+
+/**
+ * Records live API traffic to a JSON file, or answers requests from such a file without network access
+ * Secrets in headers are redacted before anything is written. Replay hands out the recorded
+ * responses of identical requests in order, repeating the last one once all have been used.
+ */
+export class Cassette {
+  readonly file: string;
+  readonly mode: CassetteMode;
+  readonly matchOn: CassetteMatchField[];
+  private entries: CassetteEntry[];
+  private played = new Set<CassetteEntry>();
+
+  constructor(options: CassetteOptions) {
+    this.file = resolve(options.file);
+    this.mode = options.mode;
+    this.matchOn = options.matchOn || DEFAULT_MATCH_ON;
+    // Recording starts a fresh cassette
+    this.entries = options.mode === 'replay' ? readCassetteFile(this.file).entries : [];
+  }
+
+  /**
+   * Send the request through fetch and record it, or serve it from the cassette
+   */
+  async fetch(url: string, init: RequestInit): Promise<Response> {
+    const request = await recordRequest(url, init);
+
+    if (this.mode === 'replay') {
+      return replayResponse(this.find(request));
+    }
+
+    const response = await fetch(url, init);
+    const bytes = Buffer.from(await response.arrayBuffer());
+    const headers = Object.fromEntries(response.headers.entries());
+
+    this.entries.push(redactEntry({
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: bytes.length > 0 ? encodeBody(bytes, headers['content-type']) : undefined,
+      },
+      recordedAt: new Date().toISOString(),
+    }));
+    writeCassetteFile(this.file, { version: 1, entries: this.entries });
+
+    return replayResponse(this.entries[this.entries.length - 1], bytes);
+  }
+
+  private find(request: CassetteEntry['request']): CassetteEntry {
+    const key = this.matchKey(request);
+    const matches = this.entries.filter(entry => this.matchKey(entry.request) === key);
+    const entry = matches.find(match => !this.played.has(match)) || matches[matches.length - 1];
+
+    if (!entry) {
+      const { pathname } = new URL(request.url);
+      const samePath = new Set(this.entries
+        .map(candidate => ({ method: candidate.request.method, url: new URL(candidate.request.url) }))
+        .filter(candidate => candidate.url.pathname === pathname)
+        .map(candidate => `${candidate.method} ${candidate.url.pathname}${candidate.url.search}`));
+      const hint = samePath.size > 0 ? `; recorded for this path: ${Array.from(samePath).join(', ')}` : '';
+      throw new Error(
+        `No recorded response in cassette ${this.file} for ${request.method} ${describeUrl(request.url)} `
+        + `(matching on ${this.matchOn.join(', ')})${hint}`
+      );
+    }
+
+    this.played.add(entry);
+    return entry;
+  }
+
+  private matchKey(request: CassetteEntry['request']): string {
+    const url = new URL(request.url);
+    const parts: Record<CassetteMatchField, () => string> = {
+      method: () => request.method.toUpperCase(),
+      path: () => url.pathname,
+      query: () => Array.from(url.searchParams.entries()).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([name, value]) => `${name}=${value}`).join('&'),
+      body: () => (request.body ? JSON.stringify(request.body) : ''),
+    };
+    return this.matchOn.map(field => parts[field]()).join('\n');
+  }
+}
+
+/**
+ * The cassette configured with FORTNOX_CASSETTE, FORTNOX_CASSETTE_MODE and FORTNOX_CASSETTE_MATCH,
+ * undefined when none is; clients configured the same way share one cassette
+ */
+export function createCassetteFromEnv(): Cassette | undefined {
+  const file = process.env.FORTNOX_CASSETTE;
+  if (!file) {
+    return undefined;
+  }
+
+  const mode = process.env.FORTNOX_CASSETTE_MODE || 'replay';
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Unknown FORTNOX_CASSETTE_MODE: ${mode} (expected record or replay)`);
+  }
+  const matchOn = process.env.FORTNOX_CASSETTE_MATCH ? parseMatchFields(process.env.FORTNOX_CASSETTE_MATCH) : undefined;
+
+  const key = JSON.stringify([resolve(file), mode, matchOn]);
+  let cassette = sharedCassettes.get(key);
+  if (!cassette) {
+    cassette = new Cassette({ file, mode, matchOn });
+    sharedCassettes.set(key, cassette);
+  }
+  return cassette;
+}
+
+/**
+ * Parse a comma-separated list of match fields such as "method,path,query,body"
+ */
+export function parseMatchFields(value: string): CassetteMatchField[] {
+  const fields = value.split(',').map(field => field.trim().toLowerCase()).filter(Boolean);
+  for (const field of fields) {
+    if (!MATCH_FIELDS.includes(field as CassetteMatchField)) {
+      throw new Error(`Unknown cassette match field: ${field} (expected ${MATCH_FIELDS.join(', ')})`);
+    }
+  }
+  return fields as CassetteMatchField[];
+}
+
+function readCassetteFile(file: string): CassetteFile {
+  if (!existsSync(file)) {
+    throw new Error(`Cassette not found: ${file} (record it first with FORTNOX_CASSETTE_MODE=record)`);
+  }
+
+  try {
+    const cassette = JSON.parse(readFileSync(file, 'utf-8')) as CassetteFile;
+    if (!Array.isArray(cassette.entries)) {
+      throw new Error('entries is missing');
+    }
+    return cassette;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid cassette ${file}: ${message}`);
+  }
+}
+
+function describeUrl(url: string): string {
+  const { pathname, search } = new URL(url);
+  return `${pathname}${search}`;
+}
+
+function writeCassetteFile(file: string, cassette: CassetteFile): void {
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(cassette, null, 2)}\n`, 'utf-8');
+}
+
+async function recordRequest(url: string, init: RequestInit): Promise<CassetteEntry['request']> {
+  const headers = Object.fromEntries(new Headers(init.headers).entries());
+  let body: RecordedBody | undefined;
+
+  if (init.body instanceof FormData) {
+    body = { json: await describeForm(init.body) };
+  } else if (typeof init.body === 'string') {
+    body = encodeBody(Buffer.from(init.body), headers['content-type']);
+  }
+
+  return { method: (init.method || 'GET').toUpperCase(), url, headers, body };
+}
+
+/**
+ * A multipart body by its fields and file digests, since its boundary differs on every request
+ */
+async function describeForm(form: FormData): Promise<Record<string, unknown>> {
+  const parts: Record<string, unknown> = {};
+  for (const [name, value] of form.entries()) {
+    if (typeof value === 'string') {
+      parts[name] = value;
+    } else {
+      const bytes = Buffer.from(await value.arrayBuffer());
+      parts[name] = {
+        filename: value.name,
+        type: value.type,
+        size: bytes.length,
+        sha256: createHash('sha256').update(bytes).digest('hex'),
+      };
+    }
+  }
+  return parts;
+}
+
+function encodeBody(bytes: Buffer, contentType: string | undefined): RecordedBody {
+  const text = bytes.toString('utf-8');
+  const isText = !(contentType && isBinaryMimeType(contentType)) && Buffer.from(text, 'utf-8').equals(bytes);
+
+  if (!isText) {
+    return { base64: bytes.toString('base64') };
+  }
+  if (contentType?.includes('json')) {
+    try {
+      return { json: JSON.parse(text) };
+    } catch {
+      // Not valid JSON after all, keep the text
+    }
+  }
+  return { text };
+}
+
+function decodeBody(body: RecordedBody): Buffer {
+  if ('base64' in body) {
+    return Buffer.from(body.base64, 'base64');
+  }
+  return Buffer.from('json' in body ? JSON.stringify(body.json) : body.text, 'utf-8');
+}
+
+function replayResponse(entry: CassetteEntry, bytes?: Buffer): Response {
+  const { status, statusText, headers, body } = entry.response;
+  const content = NULL_BODY_STATUSES.includes(status) ? null : bytes ?? (body ? decodeBody(body) : null);
+  return new Response(content, { status, statusText, headers });
+}
+
+/**
+ * Replace secret headers, and every other occurrence of their values, with <redacted>
+ */
+function redactEntry(entry: CassetteEntry): CassetteEntry {
+  const secrets: string[] = [];
+  const redactHeaders = (headers: Record<string, string>, sensitive: string[]) => Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => {
+      if (!sensitive.includes(name.toLowerCase())) {
+        return [name, value];
+      }
+      const [scheme, credentials] = value.split(/\s+(.+)/);
+      secrets.push(credentials && /^(bearer|basic)$/i.test(scheme) ? credentials : value);
+      return [name, credentials && /^(bearer|basic)$/i.test(scheme) ? `${scheme} ${REDACTED}` : REDACTED];
+    })
+  );
+
+  const redacted: CassetteEntry = {
+    ...entry,
+    request: { ...entry.request, headers: redactHeaders(entry.request.headers, SENSITIVE_REQUEST_HEADERS) },
+    response: { ...entry.response, headers: redactHeaders(entry.response.headers, SENSITIVE_RESPONSE_HEADERS) },
+  };
+
+  const scrub = (text: string) => secrets.filter(Boolean).reduce((result, secret) => result.split(secret).join(REDACTED), text);
+  return JSON.parse(scrub(JSON.stringify(redacted))) as CassetteEntry;
+}
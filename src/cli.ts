@@ -0,0 +1,219 @@
+import { writeFileSync } from 'fs';
+import { getOpenAPIParser, OpenAPIParser } from './openapi-parser.js';
+import { TypeGenerator } from './type-generator.js';
+import { SpecDiffer, renderSpecDiffMarkdown } from './spec-differ.js';
+import { createFortnoxOAuth, FortnoxOAuth } from './oauth.js';
+import { loadProfiles } from './profiles.js';
+import { FortnoxMockServer } from './mock-server.js';
+
+const DEFAULT_MOCK_HOST = '127.0.0.1';
+const DEFAULT_MOCK_PORT = 4010;
+
+type CommandHandler = (options: Record<string, string>) => Promise<void> | void;
+
+const USAGE = `Usage: fortnox-doc-mcp [command] [options]
+
+Without a command the MCP server is started on stdio, or over HTTP with:
+  --http           Serve MCP over HTTP (server-sent events) instead of stdio
+  --host <host>    Interface to listen on (default: 127.0.0.1)
+  --port <port>    Port to listen on (default: 3000)
+
+Commands:
+  generate-types   Generate TypeScript interfaces from the OpenAPI schemas
+                     --endpoint "<METHOD> <path>"  Only schemas used by one endpoint
+                     --tag <tag>                   Only schemas used by a resource group
+                     --out <file>                  Write to a file instead of stdout
+  diff-specs       Report changes between two OpenAPI specs, classified as breaking or not
+                     --from <file>                 The previous openapi.json (required)
+                     --to <file>                   The new openapi.json (default: bundled spec)
+                     --format markdown|json        Output format (default: markdown)
+                     --breaking-only               Only report breaking changes
+                     --out <file>                  Write to a file instead of stdout
+  auth-url         Print the Fortnox consent page URL for the OAuth2 authorization code flow
+                     --scope "<scopes>"            Space-separated scopes, e.g. "invoice customer" (required)
+                     --state <value>               Opaque value echoed back to the redirect URI
+                     --profile <name>              A profile from the config file
+  auth-exchange    Exchange the code from the redirect for tokens and store them in the token file
+                     --code <code>                 The code query parameter (required)
+                     --profile <name>              A profile from the config file
+  mock-server      Serve every endpoint of the spec locally with example responses, for offline testing
+                     --host <host>                 Interface to listen on (default: 127.0.0.1)
+                     --port <port>                 Port to listen on (default: 4010)
+                     --stateful                    Keep created resources in memory so POST, GET, PUT
+                                                   and DELETE round-trip
+  help             Show this message
+
+Without --profile, OAuth commands read FORTNOX_CLIENT_ID, FORTNOX_CLIENT_SECRET,
+FORTNOX_REDIRECT_URI, FORTNOX_TOKEN_URL and FORTNOX_TOKEN_FILE.
+Point live calls at the mock server with FORTNOX_BASE_URL=http://127.0.0.1:4010.
+`;
+
+const commands: Record<string, CommandHandler> = {
+  'generate-types': generateTypes,
+  'diff-specs': diffSpecs,
+  'auth-url': authUrl,
+  'auth-exchange': authExchange,
+  'mock-server': mockServer,
+  help: () => {
+    process.stdout.write(USAGE);
+  },
+};
+
+export function isCliCommand(name: string | undefined): boolean {
+  return name !== undefined && (Object.hasOwn(commands, name) || name === '--help' || name === '-h');
+}
+
+/**
+ * Run a CLI subcommand, returning the process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+  const key = name === '--help' || name === '-h' ? 'help' : name;
+  const handler = Object.hasOwn(commands, key) ? commands[key] : undefined;
+
+  if (!handler) {
+    console.error(`Unknown command: ${name}\n`);
+    console.error(USAGE);
+    return 1;
+  }
+
+  try {
+    await handler(parseOptions(rest));
+    return 0;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+}
+
+/**
+ * Parse "--name value" pairs; a flag without a value is set to "true"
+ */
+export function parseOptions(args: string[]): Record<string, string> {
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+    const next = args[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      options[arg.slice(2)] = 'true';
+    } else {
+      options[arg.slice(2)] = next;
+      i++;
+    }
+  }
+
+  return options;
+}
+
+function writeOutput(content: string, out: string | undefined): void {
+  if (out) {
+    writeFileSync(out, content, 'utf-8');
+    console.error(`Wrote ${out}`);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+function generateTypes(options: Record<string, string>): void {
+  const parser = getOpenAPIParser();
+  const generator = new TypeGenerator(parser);
+
+  let endpoint;
+  if (options.endpoint) {
+    const [method, path] = options.endpoint.trim().split(/\s+/);
+    endpoint = parser.getAllEndpoints().find(
+      e => e.method === method?.toUpperCase() && e.path === path
+    );
+    if (!endpoint) {
+      throw new Error(`Endpoint not found: ${options.endpoint} (expected "<METHOD> <path>")`);
+    }
+  }
+
+  if (options.tag && parser.getEndpointsByTag(options.tag).length === 0) {
+    throw new Error(`No endpoints found for tag: ${options.tag}`);
+  }
+
+  writeOutput(generator.generate({ endpoint, tag: options.tag }), options.out);
+}
+
+function diffSpecs(options: Record<string, string>): void {
+  if (!options.from) {
+    throw new Error('Missing --from <file>');
+  }
+  if (options.format && options.format !== 'markdown' && options.format !== 'json') {
+    throw new Error(`Unknown format: ${options.format} (expected markdown or json)`);
+  }
+
+  const from = new OpenAPIParser(options.from);
+  const to = options.to ? new OpenAPIParser(options.to) : getOpenAPIParser();
+  const diff = new SpecDiffer(from, to).diff();
+  const breakingOnly = options['breaking-only'] === 'true';
+
+  const content = options.format === 'json'
+    ? JSON.stringify(breakingOnly ? { ...diff, changes: diff.changes.filter(c => c.breaking) } : diff, null, 2)
+    : renderSpecDiffMarkdown(diff, { breakingOnly });
+
+  writeOutput(`${content}\n`, options.out);
+}
+
+function requireOAuth(profileName: string | undefined): FortnoxOAuth {
+  if (profileName) {
+    const profile = loadProfiles().get(profileName);
+    if (!profile.oauth) {
+      throw new Error(`Profile "${profileName}" is not set up for OAuth: ${profile.auth === 'oauth' ? profile.unavailable : 'it uses an access token'}`);
+    }
+    return profile.oauth;
+  }
+
+  const oauth = createFortnoxOAuth();
+  if (!oauth) {
+    throw new Error('FORTNOX_CLIENT_ID and FORTNOX_CLIENT_SECRET are required');
+  }
+  return oauth;
+}
+
+function authUrl(options: Record<string, string>): void {
+  if (!options.scope) {
+    throw new Error('Missing --scope "<scopes>"');
+  }
+
+  process.stdout.write(`${requireOAuth(options.profile).getAuthorizationUrl({ scope: options.scope, state: options.state })}\n`);
+}
+
+async function authExchange(options: Record<string, string>): Promise<void> {
+  if (!options.code) {
+    throw new Error('Missing --code <code>');
+  }
+
+  const oauth = requireOAuth(options.profile);
+  const tokens = await oauth.exchangeCode(options.code);
+  const expires = tokens.expiresAt ? `, access token expires ${new Date(tokens.expiresAt).toISOString()}` : '';
+  console.error(`Stored tokens in ${oauth.tokenFile || 'memory only'}${expires}`);
+}
+
+async function mockServer(options: Record<string, string>): Promise<void> {
+  const port = Number(options.port || DEFAULT_MOCK_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${options.port}`);
+  }
+
+  const host = options.host || DEFAULT_MOCK_HOST;
+  const stateful = options.stateful === 'true';
+  const server = new FortnoxMockServer(getOpenAPIParser(), { host, port, stateful });
+  await server.start();
+
+  console.error(`Fortnox mock server listening on ${server.url}`);
+  if (stateful) {
+    console.error(`Stateful mode: keeping records for ${server.statefulResources.length} resources in memory`);
+  }
+
+  await new Promise<void>(resolve => {
+    const stop = () => server.close().then(resolve);
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+}
@@ -0,0 +1,113 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, extname, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+
+export interface SpecSource {
+  /** An OpenAPI file (JSON or YAML) or a directory of them */
+  path: string;
+  /** Prefix for the schema names and tags of this source, e.g. "internal" */
+  namespace?: string;
+}
+
+/**
+ * Credentials and settings for one Fortnox company
+ * Secrets are not stored in the config file: the *Env fields name the environment variables holding them.
+ */
+export interface ProfileConfig {
+  description?: string;
+  baseUrl?: string;
+  /** Environment variable with a static access token */
+  accessTokenEnv?: string;
+  /** OAuth client id; with clientSecretEnv, tokens are refreshed automatically */
+  clientId?: string;
+  /** Environment variable with the OAuth client secret */
+  clientSecretEnv?: string;
+  /** Environment variable with a refresh token that seeds an empty token file */
+  refreshTokenEnv?: string;
+  redirectUri?: string;
+  tokenUrl?: string;
+  /** Where OAuth tokens are stored (default: ~/.fortnox-doc-mcp/tokens-<profile>.json) */
+  tokenFile?: string;
+  /** Rate limits like "25/5s,300/1m", or "off" (default: Fortnox' limits) */
+  rateLimits?: string;
+}
+
+export interface FortnoxMCPConfig {
+  specs?: Array<string | SpecSource>;
+  /** Reload the specs when they change on disk (default: true when specs are configured) */
+  watchSpecs?: boolean;
+  /** Fortnox companies that live calls can be made against, by profile name */
+  profiles?: Record<string, ProfileConfig>;
+  /** Profile used when a call names none (default: FORTNOX_PROFILE, "default", or the first profile) */
+  defaultProfile?: string;
+  /** Directory files returned by live calls are saved to, instead of embedding them in the result */
+  downloadDir?: string;
+  /** Directory upload_file may read files from; without it, uploads must be passed as base64 */
+  uploadDir?: string;
+  /** Only allow GET calls to the live API (default: false) */
+  readOnly?: boolean;
+}
+
+export interface LoadedConfig extends FortnoxMCPConfig {
+  /** The file the config was read from, undefined when no config file exists */
+  file?: string;
+}
+
+const CONFIG_FILE_NAMES = [
+  'fortnox-doc-mcp.config.json',
+  'fortnox-doc-mcp.config.yaml',
+  'fortnox-doc-mcp.config.yml',
+];
+
+/**
+ * Read a JSON or YAML file, picking the parser from the file extension
+ */
+export function readDataFile(filePath: string): unknown {
+  const content = readFileSync(filePath, 'utf-8');
+  const extension = extname(filePath).toLowerCase();
+
+  if (extension === '.yaml' || extension === '.yml') {
+    return parseYaml(content);
+  }
+
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid JSON in ${filePath}: ${message}`);
+  }
+}
+
+/**
+ * Load the config file named by FORTNOX_MCP_CONFIG, or fortnox-doc-mcp.config.{json,yaml,yml}
+ * in the working directory. Relative paths are resolved against the config file.
+ */
+export function loadConfig(): LoadedConfig {
+  const file = process.env.FORTNOX_MCP_CONFIG
+    ? resolve(process.env.FORTNOX_MCP_CONFIG)
+    : CONFIG_FILE_NAMES.map(name => resolve(name)).find(candidate => existsSync(candidate));
+
+  if (!file) {
+    return {};
+  }
+
+  const config = (readDataFile(file) || {}) as FortnoxMCPConfig;
+  const baseDir = dirname(file);
+
+  return {
+    ...config,
+    specs: config.specs?.map(spec => {
+      const source = typeof spec === 'string' ? { path: spec } : spec;
+      return { ...source, path: resolve(baseDir, source.path) };
+    }),
+    downloadDir: config.downloadDir && resolve(baseDir, config.downloadDir),
+    uploadDir: config.uploadDir && resolve(baseDir, config.uploadDir),
+    profiles: config.profiles && Object.fromEntries(
+      Object.entries(config.profiles).map(([name, profile]) => [
+        name,
+        profile.tokenFile ? { ...profile, tokenFile: resolve(baseDir, profile.tokenFile) } : profile,
+      ])
+    ),
+    file,
+  };
+}
@@ -0,0 +1,198 @@
+import { OpenAPIParser, Schema } from './openapi-parser.js';
+
+export type ExampleMode = 'required' | 'all';
+
+/**
+ * Realistic sample strings keyed by (part of) the property name
+ * Checked in order, first match wins
+ */
+const STRING_HINTS: Array<[RegExp, string]> = [
+  [/email/i, 'info@example.com'],
+  [/countrycode/i, 'SE'],
+  [/currency/i, 'SEK'],
+  [/zipcode|postalcode/i, '123 45'],
+  [/city/i, 'Stockholm'],
+  [/country/i, 'Sverige'],
+  [/address/i, 'Storgatan 1'],
+  [/phone|fax/i, '08-123 456 78'],
+  [/organisationnumber|organizationnumber/i, '556677-8899'],
+  [/vatnumber/i, 'SE556677889901'],
+  [/customernumber|suppliernumber|articlenumber|documentnumber|number$/i, '1001'],
+  [/url|www/i, 'https://www.example.com'],
+  [/ocr/i, '100123'],
+  [/name/i, 'Example AB'],
+  [/reference/i, 'Anna Andersson'],
+  [/comment|remark|description|text/i, 'Example text'],
+];
+
+const NUMBER_HINTS: Array<[RegExp, number]> = [
+  [/quantity/i, 1],
+  [/vat$/i, 25],
+  [/price|amount|total|fee|freight/i, 100],
+  [/year/i, 2024],
+  [/account/i, 3001],
+];
+
+const EXAMPLE_DATE = '2024-01-15';
+const EXAMPLE_DATE_TIME = '2024-01-15T09:30:00Z';
+const EXAMPLE_UUID = '3fa85f64-5717-4562-b3fc-2c963f66afa6';
+
+/**
+ * Builds example payloads from OpenAPI schemas
+ * Nested $refs are filled in via OpenAPIParser.dereferenceSchema.
+ */
+export class ExampleGenerator {
+  private parser: OpenAPIParser;
+
+  constructor(parser: OpenAPIParser) {
+    this.parser = parser;
+  }
+
+  /**
+   * Generate an example value for a schema
+   * In "required" mode optional properties are skipped unless they lead to required fields.
+   * name is the property or parameter name, used to pick realistic values.
+   */
+  generate(schema: Schema, options?: { mode?: ExampleMode; maxDepth?: number; name?: string }): unknown {
+    const dereferenced = this.parser.dereferenceSchema(schema, { maxDepth: options?.maxDepth });
+    return this.generateValue(dereferenced, options?.name || '', options?.mode || 'all');
+  }
+
+  private generateValue(schema: Schema, propertyName: string, mode: ExampleMode): unknown {
+    if (schema.example !== undefined) {
+      return schema.example;
+    }
+
+    if (schema.$ref) {
+      // Left unresolved by the dereferencer (circular or too deep)
+      return {};
+    }
+
+    if (schema.enum && schema.enum.length > 0) {
+      return schema.enum[0];
+    }
+
+    const type = schema.type || (schema.properties ? 'object' : undefined);
+
+    switch (type) {
+      case 'object':
+        return this.generateObject(schema, mode);
+      case 'array':
+        return schema.items ? [this.generateValue(schema.items, propertyName, mode)] : [];
+      case 'string':
+        return this.generateString(schema, propertyName);
+      case 'integer':
+      case 'number':
+        return this.generateNumber(schema, propertyName);
+      case 'boolean':
+        return false;
+      default:
+        return null;
+    }
+  }
+
+  private generateObject(schema: Schema, mode: ExampleMode): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const required = new Set(schema.required || []);
+
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      if (mode === 'required' && !required.has(name) && !this.leadsToRequired(property)) {
+        continue;
+      }
+      result[name] = this.generateValue(property, name, mode);
+    }
+
+    if (Object.keys(result).length === 0 && schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      result.key = this.generateValue(schema.additionalProperties, 'key', mode);
+    }
+
+    return result;
+  }
+
+  /**
+   * True when an optional object/array property contains required fields further down,
+   * e.g. the "Invoice" property of fortnox_InvoicePayload_Wrap
+   */
+  private leadsToRequired(schema: Schema): boolean {
+    const target = schema.type === 'array' && schema.items ? schema.items : schema;
+    if (target.required && target.required.length > 0) {
+      return true;
+    }
+    return Object.values(target.properties || {}).some(
+      property => (property.properties || property.items?.properties) ? this.leadsToRequired(property) : false
+    );
+  }
+
+  private generateString(schema: Schema, propertyName: string): string {
+    let value: string;
+
+    switch (schema.format) {
+      case 'date':
+        value = EXAMPLE_DATE;
+        break;
+      case 'date-time':
+        value = EXAMPLE_DATE_TIME;
+        break;
+      case 'uuid':
+        value = EXAMPLE_UUID;
+        break;
+      case 'email':
+        value = 'info@example.com';
+        break;
+      case 'byte':
+        value = Buffer.from('example').toString('base64');
+        break;
+      default:
+        value = STRING_HINTS.find(([pattern]) => pattern.test(propertyName))?.[1] || 'string';
+    }
+
+    if (schema.pattern && !matchesPattern(value, schema.pattern)) {
+      value = [...patternCandidates(schema.pattern), '']
+        .find(candidate => matchesPattern(candidate, schema.pattern as string)) ?? value;
+    }
+
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      value = value.substring(0, schema.maxLength);
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      value = value.padEnd(schema.minLength, 'X');
+    }
+
+    return value;
+  }
+
+  private generateNumber(schema: Schema, propertyName: string): number {
+    let value = NUMBER_HINTS.find(([pattern]) => pattern.test(propertyName))?.[1] ?? 1;
+
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      value = schema.minimum;
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      value = schema.maximum;
+    }
+    if (schema.type === 'integer') {
+      value = Math.round(value);
+    }
+
+    return value;
+  }
+}
+
+function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Cheap guesses for simple patterns such as "^[0-9]+" or "planning|started|completed"
+ */
+function patternCandidates(pattern: string): string[] {
+  const alternatives = pattern
+    .replace(/[\^$()]/g, '')
+    .split('|')
+    .filter(alternative => /^[\w-]+$/.test(alternative));
+  return ['1', ...alternatives];
+}
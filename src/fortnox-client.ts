@@ -1,11 +1,149 @@
-import { getOpenAPIParser } from './openapi-parser.js';
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import { getOpenAPIParser, FortnoxEndpoint, OpenAPIParser } from './openapi-parser.js';
+import { RequestValidator, RequestInput } from './request-validator.js';
+import { RateLimiter, RateLimitWindow, RateLimitMetadata, FORTNOX_RATE_LIMITS, parseRateLimits, Clock, systemClock } from './rate-limiter.js';
+import {
+  RetryOptions,
+  RetryAttempt,
+  DEFAULT_RETRY_OPTIONS,
+  isIdempotent,
+  isRetryableStatus,
+  retryDelay,
+  parseRetryAfter,
+} from './retry.js';
+import { FortnoxOAuth, createFortnoxOAuth } from './oauth.js';
+import { loadConfig } from './config.js';
+import { BinaryContent, declaresBinaryResponse, isBinaryMimeType, mimeTypeForFilename, parseContentDispositionFilename } from './binary-content.js';
+import { Cassette, createCassetteFromEnv } from './cassette.js';
+import { detectPagination, readPageInfo, readPageItems, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, PageInfo } from './pagination.js';
 
 export interface FortnoxConfig {
-  accessToken: string;
+  /**
+   * Bearer token sent as is; ignored when oauth is set
+   */
+  accessToken?: string;
+  /**
+   * OAuth2 client that supplies the bearer token and refreshes it when it expires or is rejected
+   */
+  oauth?: FortnoxOAuth;
   baseUrl?: string;
-  clientSecret?: string;
+  /**
+   * Validate requests against the OpenAPI spec before sending (default: true)
+   */
+  validateRequests?: boolean;
+  /**
+   * Rate limit windows per access token (default: 25 per 5 seconds and 300 per minute), false to disable
+   */
+  rateLimits?: RateLimitWindow[] | false;
+  /**
+   * Limiter to use instead of the shared one for rateLimits, e.g. one with a fake clock in tests
+   */
+  rateLimiter?: RateLimiter;
+  /**
+   * Bucket the calls are counted in (default: the access token, or the OAuth client id)
+   */
+  rateLimitKey?: string;
+  /**
+   * Retry 429, 5xx and network errors with exponential backoff (default: 3 retries, GET/PUT/DELETE only), false to disable
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Abort a single attempt after this many milliseconds (default: 30000)
+   */
+  timeoutMs?: number;
+  /**
+   * Time source for retry delays, e.g. a fake clock in tests
+   */
+  clock?: Clock;
+  /**
+   * Refuse every call except GET (default: false)
+   */
+  readOnly?: boolean;
+  /**
+   * Record every request and response to a cassette file, or serve them from one without network access
+   */
+  cassette?: Cassette;
+}
+
+/**
+ * Per-request overrides of the client's retry and timeout settings
+ * Retry options are merged onto the client's; they cannot turn retries on for a client created with retry: false.
+ */
+export interface RequestControl {
+  retry?: RetryOptions | false;
+  timeoutMs?: number;
 }
 
+interface SendOptions extends RequestControl {
+  queryParams?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Read a success response as bytes whatever its Content-Type */
+  binary?: boolean;
+  /** Send a multipart/form-data body instead of JSON */
+  form?: FormData;
+}
+
+/**
+ * A request as it would be sent, with the bearer token redacted
+ */
+export interface PreparedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export const MULTIPART_FORM_DATA = 'multipart/form-data';
+
+export interface UploadFile {
+  /** Local file to upload */
+  filePath?: string;
+  /** File content as base64, instead of filePath */
+  base64?: string;
+  /** Name sent to the server (default: the name of filePath) */
+  filename?: string;
+  /** Media type (default: from the file name) */
+  mimeType?: string;
+}
+
+export interface UploadOptions extends RequestControl {
+  file: UploadFile;
+  /** Form field the file is sent in (default: file) */
+  fieldName?: string;
+  /** Further form fields sent with the file */
+  fields?: Record<string, string>;
+  queryParams?: Record<string, string | number | boolean | undefined>;
+}
+
+export interface PaginateOptions extends RequestControl {
+  queryParams?: Record<string, string | number | boolean | undefined>;
+  /** Items per page, sent as the limit parameter (default: 100, at most 500) */
+  pageSize?: number;
+  /** Stop once this many items have been yielded (default: no limit) */
+  maxItems?: number;
+}
+
+export interface FortnoxPage<T> extends PageInfo {
+  /** Page number that was requested */
+  page: number;
+  items: T[];
+  response: FortnoxResponse;
+}
+
+interface AttemptResult<T> {
+  response: FortnoxResponse<T>;
+  retryable: boolean;
+  retryAfterMs?: number;
+  /** The bearer token the attempt was sent with */
+  accessToken?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+// Sent instead of a real token when replaying, so no token is fetched or refreshed
+const REPLAY_ACCESS_TOKEN = 'replay';
+
 export interface FortnoxResponse<T = unknown> {
   success: boolean;
   data?: T;
@@ -14,11 +152,31 @@ export interface FortnoxResponse<T = unknown> {
     code?: number;
     details?: unknown;
   };
+  meta?: {
+    rateLimit?: RateLimitMetadata;
+  };
+}
+
+// Clients with the same limits share a limiter, so their calls count against the same buckets
+const sharedRateLimiters = new Map<string, RateLimiter>();
+
+function getSharedRateLimiter(windows: RateLimitWindow[]): RateLimiter {
+  const key = JSON.stringify(windows);
+  let limiter = sharedRateLimiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter({ windows });
+    sharedRateLimiters.set(key, limiter);
+  }
+  return limiter;
 }
 
 export class FortnoxAPIClient {
   private config: FortnoxConfig;
   private baseUrl: string;
+  // Built for the shared parser, and again when a reloaded spec replaces it
+  private validator: { parser: OpenAPIParser; validator: RequestValidator } | null = null;
+  private rateLimiter: RateLimiter | null;
+  private rateLimitKey: string;
 
   constructor(config: FortnoxConfig) {
     this.validateConfig(config);
@@ -31,54 +189,347 @@ export class FortnoxAPIClient {
       const parser = getOpenAPIParser();
       this.baseUrl = parser.getBaseUrl();
     }
+
+    // Replayed calls never reach Fortnox, so they do not count against its limits
+    this.rateLimiter = config.rateLimits === false || config.cassette?.mode === 'replay'
+      ? null
+      : config.rateLimiter || getSharedRateLimiter(config.rateLimits || FORTNOX_RATE_LIMITS);
+    // OAuth access tokens rotate, so limit per client instead
+    this.rateLimitKey = config.rateLimitKey || (config.oauth ? `oauth:${config.oauth.clientId}` : config.accessToken!);
+  }
+
+  get readOnly(): boolean {
+    return this.config.readOnly === true;
   }
 
   private validateConfig(config: FortnoxConfig): void {
-    if (!config.accessToken || config.accessToken.trim() === '') {
-      throw new Error('FORTNOX_ACCESS_TOKEN is required but not provided');
+    if (!config.oauth && (!config.accessToken || config.accessToken.trim() === '')) {
+      throw new Error('FORTNOX_ACCESS_TOKEN or an OAuth client is required but not provided');
     }
   }
 
   /**
    * Make an API request to Fortnox
-   * Based on OpenAPI spec requirement: uses native fetch
-   * Authentication header as per Fortnox documentation
+   * Requests to documented endpoints are validated against the OpenAPI spec first, and
+   * their responses are read as declared there (e.g. a PDF as a BinaryContent).
    */
   async request<T = unknown>(
     path: string,
     method: string,
-    options?: {
+    options?: SendOptions
+  ): Promise<FortnoxResponse<T>> {
+    const match = getOpenAPIParser().matchEndpoint(method, path);
+    if (!match) {
+      return this.send<T>(path, method, options);
+    }
+
+    const invalid = this.validate<T>(match.endpoint, {
+      pathParams: match.pathParams,
+      queryParams: options?.queryParams,
+      body: options?.body,
+    });
+    if (invalid) {
+      return invalid;
+    }
+
+    return this.send<T>(path, method, withDeclaredResponse(match.endpoint, options));
+  }
+
+  /**
+   * Call a documented endpoint, filling its path template from pathParams
+   * Method and path come from the parsed OpenAPI operation
+   */
+  async requestEndpoint<T = unknown>(
+    endpoint: FortnoxEndpoint,
+    options?: RequestControl & {
+      pathParams?: Record<string, string | number>;
       queryParams?: Record<string, string | number | boolean | undefined>;
       body?: unknown;
-      headers?: Record<string, string>;
     }
   ): Promise<FortnoxResponse<T>> {
+    const invalid = this.validate<T>(endpoint, options || {});
+    if (invalid) {
+      return invalid;
+    }
+
+    let path: string;
+    try {
+      path = resolveEndpointPath(endpoint, options?.pathParams);
+    } catch (error) {
+      return this.handleError(error) as FortnoxResponse<T>;
+    }
+
+    return this.send<T>(path, endpoint.method, withDeclaredResponse(endpoint, {
+      queryParams: options?.queryParams,
+      body: options?.body,
+      retry: options?.retry,
+      timeoutMs: options?.timeoutMs,
+    }));
+  }
+
+  /**
+   * Validate and resolve a call to a documented endpoint without sending it
+   */
+  prepareEndpointRequest(
+    endpoint: FortnoxEndpoint,
+    options?: {
+      pathParams?: Record<string, string | number>;
+      queryParams?: Record<string, string | number | boolean | undefined>;
+      body?: unknown;
+    }
+  ): FortnoxResponse<PreparedRequest> {
+    const invalid = this.validate<PreparedRequest>(endpoint, options || {});
+    if (invalid) {
+      return invalid;
+    }
+
+    let path: string;
+    try {
+      path = resolveEndpointPath(endpoint, options?.pathParams);
+    } catch (error) {
+      return this.handleError(error) as FortnoxResponse<PreparedRequest>;
+    }
+
+    return {
+      success: true,
+      data: {
+        method: endpoint.method,
+        url: this.buildUrl(path, options?.queryParams),
+        headers: buildHeaders('<redacted>', withDeclaredResponse(endpoint).headers),
+        body: options?.body,
+      },
+    };
+  }
+
+  /**
+   * POST a file as multipart/form-data, e.g. to the inbox or archive
+   * Documented endpoints must declare a multipart request body.
+   */
+  async upload<T = unknown>(path: string, options: UploadOptions): Promise<FortnoxResponse<T>> {
+    const match = getOpenAPIParser().matchEndpoint('POST', path);
+    if (match && !match.endpoint.requestContentTypes?.includes(MULTIPART_FORM_DATA)) {
+      return {
+        success: false,
+        error: { message: `POST ${match.endpoint.path} does not accept ${MULTIPART_FORM_DATA} uploads` },
+      };
+    }
+    if (match) {
+      const invalid = this.validate<T>(match.endpoint, { pathParams: match.pathParams, queryParams: options.queryParams });
+      if (invalid) {
+        return invalid;
+      }
+    }
+
+    let form: FormData;
+    try {
+      form = await buildUploadForm(options);
+    } catch (error) {
+      return this.handleError(error) as FortnoxResponse<T>;
+    }
+
+    const sendOptions: SendOptions = {
+      queryParams: options.queryParams,
+      form,
+      retry: options.retry,
+      timeoutMs: options.timeoutMs,
+    };
+    return this.send<T>(path, 'POST', match ? withDeclaredResponse(match.endpoint, sendOptions) : sendOptions);
+  }
+
+  /**
+   * Walk a list endpoint page by page, following MetaInformation in the responses
+   * Every page goes through request(), so it is validated, rate limited and retried like any call.
+   * A failed page is yielded with its error response and ends the iteration; responses
+   * without MetaInformation count as a single page.
+   */
+  async *paginate<T = unknown>(path: string, options?: PaginateOptions): AsyncGenerator<FortnoxPage<T>> {
+    const match = getOpenAPIParser().matchEndpoint('GET', path);
+    const support = match ? detectPagination(getOpenAPIParser(), match.endpoint) : undefined;
+    const pageParam = support?.pageParam || 'page';
+    const limitParam = support?.limitParam || 'limit';
+    const pageSize = Math.max(1, Math.min(options?.pageSize ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE));
+    let remaining = options?.maxItems ?? Infinity;
+
+    for (let page = 1; remaining > 0; page++) {
+      const response = await this.request(path, 'GET', {
+        queryParams: { ...options?.queryParams, [pageParam]: page, [limitParam]: pageSize },
+        retry: options?.retry,
+        timeoutMs: options?.timeoutMs,
+      });
+
+      if (!response.success) {
+        yield { page, items: [], response };
+        return;
+      }
+
+      const info = readPageInfo(response.data);
+      // The last page may hold more than maxItems allows; the page size stays fixed so page offsets line up
+      const items = readPageItems(response.data, support?.itemsKey).slice(0, remaining) as T[];
+      remaining -= items.length;
+      yield { page, ...info, items, response };
+
+      if (items.length === 0 || info.totalPages === undefined || page >= info.totalPages) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Send a request, retrying transient failures (429, 5xx, network errors and timeouts)
+   * Non-idempotent methods are only retried when retryNonIdempotent is set.
+   * When a request was retried, error.details lists every attempt.
+   * A 401 with OAuth refreshes the access token and repeats the attempt once.
+   */
+  private async send<T>(path: string, method: string, options?: SendOptions): Promise<FortnoxResponse<T>> {
+    if (this.config.readOnly && method.toUpperCase() !== 'GET') {
+      return {
+        success: false,
+        error: { message: `Read-only mode: ${method.toUpperCase()} ${path} was not sent (only GET calls are allowed)` },
+      };
+    }
+
+    // A client configured without retries never retries, whatever a single request asks for
+    const retry = this.config.retry === false || options?.retry === false
+      ? { ...DEFAULT_RETRY_OPTIONS, maxRetries: 0 }
+      : { ...DEFAULT_RETRY_OPTIONS, ...this.config.retry, ...options?.retry };
+    const maxRetries = isIdempotent(method) || retry.retryNonIdempotent ? retry.maxRetries : 0;
+    const clock = this.config.clock || systemClock;
+    const attempts: RetryAttempt[] = [];
+    let reauthenticated = false;
+
+    for (let attempt = 1; ; attempt++) {
+      let result = await this.attempt<T>(path, method, options);
+
+      // An expired or revoked OAuth token: refresh it and repeat the attempt without counting it as a retry
+      const unauthorized = result.response.error?.code === 401 ? result.response.error : undefined;
+      if (unauthorized && this.config.oauth && this.config.cassette?.mode !== 'replay' && !reauthenticated) {
+        reauthenticated = true;
+        try {
+          await this.config.oauth.refresh(result.accessToken);
+          result = await this.attempt<T>(path, method, options);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          result.response.error = { ...unauthorized, message: `${unauthorized.message} (${reason})` };
+        }
+      }
+
+      const { response } = result;
+      const record: RetryAttempt = { attempt, status: response.error?.code };
+      if (!response.success) {
+        record.error = response.error?.message;
+      }
+      attempts.push(record);
+
+      if (response.success || !result.retryable || attempt > maxRetries) {
+        if (!response.success && attempts.length > 1) {
+          response.error = {
+            ...response.error!,
+            details: { attempts, response: response.error?.details },
+          };
+        }
+        return response;
+      }
+
+      record.delayMs = retryDelay(attempt, retry, result.retryAfterMs);
+      await clock.sleep(record.delayMs);
+    }
+  }
+
+  /**
+   * Send a single attempt using native fetch, waiting for the rate limiter first
+   * Authentication header as per Fortnox documentation
+   */
+  private async attempt<T>(path: string, method: string, options?: SendOptions): Promise<AttemptResult<T>> {
+    let rateLimit: RateLimitMetadata | undefined;
+    let accessToken: string | undefined;
+    const controller = new AbortController();
+    const timeoutMs = options?.timeoutMs ?? this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    let timer: NodeJS.Timeout | undefined;
+
     try {
+      // Queue behind earlier calls with the same access token when a limit is reached
+      rateLimit = this.rateLimiter ? await this.rateLimiter.acquire(this.rateLimitKey) : undefined;
+      // Replay works offline, so it never asks the token endpoint for a token
+      if (this.config.cassette?.mode === 'replay') {
+        accessToken = REPLAY_ACCESS_TOKEN;
+      } else {
+        accessToken = this.config.oauth ? await this.config.oauth.getAccessToken() : this.config.accessToken!;
+      }
+
       // Build URL with query parameters
       const url = this.buildUrl(path, options?.queryParams);
 
       // Build headers
-      const headers = this.buildHeaders(options?.headers);
+      const headers = buildHeaders(accessToken, options?.headers);
 
       // Build fetch options
       const fetchOptions: RequestInit = {
         method: method.toUpperCase(),
         headers,
+        signal: controller.signal,
       };
 
       // Add body for POST, PUT, PATCH requests
-      if (options?.body && ['POST', 'PUT', 'PATCH'].includes(method.toUpperCase())) {
+      if (options?.form) {
+        // fetch sets the multipart Content-Type with its boundary
+        delete headers['Content-Type'];
+        fetchOptions.body = options.form;
+      } else if (options?.body && ['POST', 'PUT', 'PATCH'].includes(method.toUpperCase())) {
         fetchOptions.body = JSON.stringify(options.body);
       }
 
-      // Make the request using native fetch
-      const response = await fetch(url, fetchOptions);
+      // Make the request using native fetch (or the cassette), aborting when it takes too long
+      timer = setTimeout(() => controller.abort(), timeoutMs);
+      const response = this.config.cassette
+        ? await this.config.cassette.fetch(url, fetchOptions)
+        : await fetch(url, fetchOptions);
 
       // Parse response
-      return await this.parseResponse<T>(response);
+      return {
+        response: withRateLimit(await this.parseResponse<T>(response, options?.binary), rateLimit),
+        retryable: isRetryableStatus(response.status),
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+        accessToken,
+      };
     } catch (error) {
-      return this.handleError(error) as FortnoxResponse<T>;
+      const failure = controller.signal.aborted
+        ? new Error(`Request timed out after ${timeoutMs}ms`)
+        : error;
+      return {
+        response: withRateLimit(this.handleError(failure) as FortnoxResponse<T>, rateLimit),
+        // fetch rejects with a TypeError when the network fails; other errors would fail the same way again
+        retryable: controller.signal.aborted || error instanceof TypeError,
+        accessToken,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Returns an error response when validation is enabled and the request is invalid
+   */
+  private validate<T>(endpoint: FortnoxEndpoint, input: RequestInput): FortnoxResponse<T> | undefined {
+    if (this.config.validateRequests === false) {
+      return undefined;
     }
+
+    const parser = getOpenAPIParser();
+    if (this.validator?.parser !== parser) {
+      this.validator = { parser, validator: new RequestValidator(parser) };
+    }
+    const result = this.validator.validator.validateRequest(endpoint, input);
+    if (result.valid) {
+      return undefined;
+    }
+
+    return {
+      success: false,
+      error: {
+        message: `Request validation failed for ${endpoint.method} ${endpoint.path}`,
+        details: { errors: result.errors },
+      },
+    };
   }
 
   private buildUrl(
@@ -107,32 +558,27 @@ export class FortnoxAPIClient {
     return url;
   }
 
-  private buildHeaders(customHeaders?: Record<string, string>): Record<string, string> {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-      'Access-Token': this.config.accessToken,
-    };
-
-    // Add Client-Secret if provided (required for some endpoints per Fortnox documentation)
-    if (this.config.clientSecret) {
-      headers['Client-Secret'] = this.config.clientSecret;
-    }
-
-    // Merge custom headers
-    if (customHeaders) {
-      Object.assign(headers, customHeaders);
-    }
-
-    return headers;
-  }
-
-  private async parseResponse<T>(response: Response): Promise<FortnoxResponse<T>> {
+  private async parseResponse<T>(response: Response, binary?: boolean): Promise<FortnoxResponse<T>> {
     const contentType = response.headers.get('content-type');
     const isJson = contentType?.includes('application/json');
 
     // Handle successful responses
     if (response.ok) {
+      // Files (e.g. PDF prints) as bytes: decoding them as text would corrupt them
+      if ((binary && !isJson) || (contentType && isBinaryMimeType(contentType))) {
+        const bytes = Buffer.from(await response.arrayBuffer());
+        const content: BinaryContent = {
+          bytes,
+          mimeType: contentType?.split(';')[0].trim() || 'application/octet-stream',
+          filename: parseContentDispositionFilename(response.headers.get('content-disposition')),
+          size: bytes.length,
+        };
+        return {
+          success: true,
+          data: content as unknown as T,
+        };
+      }
+
       if (isJson) {
         const data = await response.json();
         return {
@@ -140,7 +586,7 @@ export class FortnoxAPIClient {
           data: data as T,
         };
       } else {
-        // Non-JSON success response (e.g., PDF, file downloads)
+        // Other text responses (e.g., CSV exports)
         const text = await response.text();
         return {
           success: true,
@@ -158,7 +604,8 @@ export class FortnoxAPIClient {
         const errorData = await response.json() as any;
         // Fortnox error format (based on OpenAPI spec)
         if (errorData?.ErrorInformation) {
-          errorMessage = errorData.ErrorInformation.message || errorMessage;
+          // The live API sends lowercase keys, the spec documents Message
+          errorMessage = errorData.ErrorInformation.message || errorData.ErrorInformation.Message || errorMessage;
           errorDetails = errorData.ErrorInformation;
         } else if (errorData?.message) {
           errorMessage = errorData.message;
@@ -251,23 +698,135 @@ export class FortnoxAPIClient {
   }
 }
 
+/**
+ * Build the request headers Fortnox expects for the given bearer token
+ * Exported so code snippets show exactly what the client sends
+ */
+export function buildHeaders(
+  accessToken: string,
+  customHeaders?: Record<string, string>
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+    'Authorization': `Bearer ${accessToken}`,
+  };
+
+  // Merge custom headers
+  if (customHeaders) {
+    Object.assign(headers, customHeaders);
+  }
+
+  return headers;
+}
+
+/**
+ * Substitute path parameters into an endpoint path template
+ * e.g. /3/invoices/{DocumentNumber} -> /3/invoices/1001
+ */
+export function resolveEndpointPath(
+  endpoint: FortnoxEndpoint,
+  pathParams: Record<string, string | number> = {}
+): string {
+  return endpoint.path.replace(/\{([^}]+)\}/g, (_match, name: string) => {
+    const value = pathParams[name];
+    if (value === undefined || value === null || String(value).trim() === '') {
+      throw new Error(`Missing required path parameter: ${name}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
 /**
  * Create a Fortnox API client from environment variables
  * Secrets MUST be read from environment variables only (per requirements)
- * Returns null if FORTNOX_ACCESS_TOKEN is not set (for development/testing)
+ * Uses OAuth when FORTNOX_CLIENT_ID and FORTNOX_CLIENT_SECRET are set, and a static FORTNOX_ACCESS_TOKEN otherwise.
+ * Pass the OAuth client when the caller has already created it from the environment.
+ * Returns null if there is no token to call the API with (for development/testing)
  */
-export function createFortnoxClient(): FortnoxAPIClient | null {
+export function createFortnoxClient(oauth: FortnoxOAuth | null = createFortnoxOAuth()): FortnoxAPIClient | null {
   const accessToken = process.env.FORTNOX_ACCESS_TOKEN;
-  const clientSecret = process.env.FORTNOX_CLIENT_SECRET;
-  const baseUrl = process.env.FORTNOX_BASE_URL;
 
-  if (!accessToken) {
+  if (oauth ? !oauth.hasTokens() : !accessToken) {
     return null;
   }
 
   return new FortnoxAPIClient({
+    ...readClientSettings(),
     accessToken,
-    clientSecret,
-    baseUrl,
+    oauth: oauth || undefined,
+    baseUrl: process.env.FORTNOX_BASE_URL,
   });
 }
+
+/**
+ * Validation, rate limit, retry, timeout, read-only and cassette settings from environment variables
+ * FORTNOX_READ_ONLY overrides readOnly in the config file.
+ */
+export function readClientSettings(): Pick<FortnoxConfig, 'validateRequests' | 'rateLimits' | 'retry' | 'timeoutMs' | 'readOnly' | 'cassette'> {
+  const maxRetries = readNumberEnv('FORTNOX_MAX_RETRIES', { integer: true, min: 0 });
+
+  return {
+    readOnly: process.env.FORTNOX_READ_ONLY !== undefined
+      ? process.env.FORTNOX_READ_ONLY === 'true'
+      : loadConfig().readOnly === true,
+    validateRequests: process.env.FORTNOX_VALIDATE_REQUESTS !== 'false',
+    rateLimits: process.env.FORTNOX_RATE_LIMITS ? parseRateLimits(process.env.FORTNOX_RATE_LIMITS) : undefined,
+    retry: maxRetries !== undefined ? { maxRetries } : undefined,
+    timeoutMs: readNumberEnv('FORTNOX_TIMEOUT_MS', { integer: false, min: 1 }),
+    cassette: createCassetteFromEnv(),
+  };
+}
+
+/**
+ * A numeric environment variable, undefined when unset; throws for anything but a number of at least min
+ */
+function readNumberEnv(name: string, rule: { integer: boolean; min: number }): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < rule.min || (rule.integer && !Number.isInteger(number))) {
+    const expected = `${rule.integer ? 'a whole number' : 'a number'} of at least ${rule.min}`;
+    throw new Error(`Invalid ${name} "${value}" (expected ${expected})`);
+  }
+  return number;
+}
+
+/**
+ * Read the file to upload (from disk or base64) into a form with the extra fields
+ */
+async function buildUploadForm(options: UploadOptions): Promise<FormData> {
+  const { file } = options;
+  if (!file.filePath && file.base64 === undefined) {
+    throw new Error('Either filePath or base64 is required');
+  }
+
+  const bytes = file.filePath ? await readFile(file.filePath) : Buffer.from(file.base64!, 'base64');
+  const filename = file.filename || (file.filePath ? basename(file.filePath) : 'upload.bin');
+  const form = new FormData();
+
+  for (const [name, value] of Object.entries(options.fields || {})) {
+    form.append(name, value);
+  }
+  form.append(options.fieldName || 'file', new Blob([bytes], { type: file.mimeType || mimeTypeForFilename(filename) }), filename);
+  return form;
+}
+
+/**
+ * Ask for and read the response the way the spec declares it for the endpoint
+ */
+function withDeclaredResponse(endpoint: FortnoxEndpoint, options?: SendOptions): SendOptions {
+  const accept = endpoint.responseContentType;
+  return {
+    ...options,
+    binary: declaresBinaryResponse(endpoint),
+    headers: accept && accept !== 'application/json' ? { Accept: accept, ...options?.headers } : options?.headers,
+  };
+}
+
+function withRateLimit<T>(response: FortnoxResponse<T>, rateLimit: RateLimitMetadata | undefined): FortnoxResponse<T> {
+  return rateLimit ? { ...response, meta: { ...response.meta, rateLimit } } : response;
+}
@@ -0,0 +1,124 @@
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Clients must send "Authorization: Bearer <authToken>"; no check when unset */
+  authToken?: string;
+}
+
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+
+/**
+ * Serves MCP over HTTP with server-sent events, one MCP session per SSE connection
+ * GET /sse opens a session, POST /messages?sessionId=... delivers client messages,
+ * GET /health reports liveness without authentication.
+ */
+export class HttpTransportServer {
+  private createSession: () => Server;
+  private options: HttpTransportOptions;
+  private httpServer: NodeHttpServer;
+  private sessions = new Map<string, { transport: SSEServerTransport; server: Server }>();
+
+  constructor(createSession: () => Server, options: HttpTransportOptions) {
+    this.createSession = createSession;
+    this.options = options;
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error(`HTTP request failed: ${error instanceof Error ? error.message : error}`);
+        if (!res.headersSent) {
+          res.writeHead(500).end('Internal server error');
+        }
+      });
+    });
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Close every open session, then stop accepting connections
+   */
+  async close(): Promise<void> {
+    await Promise.all(Array.from(this.sessions.values()).map(({ server }) => server.close()));
+    this.sessions.clear();
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method === 'GET' && url.pathname === HEALTH_PATH) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: this.sessions.size }));
+      return;
+    }
+
+    if (url.pathname !== SSE_PATH && url.pathname !== MESSAGES_PATH) {
+      res.writeHead(404).end('Not found');
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end('Unauthorized');
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === SSE_PATH) {
+      const transport = new SSEServerTransport(MESSAGES_PATH, res);
+      const server = this.createSession();
+      this.sessions.set(transport.sessionId, { transport, server });
+      const onclose = server.onclose;
+      server.onclose = () => {
+        this.sessions.delete(transport.sessionId);
+        onclose?.();
+      };
+      await server.connect(transport);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+      const session = this.sessions.get(url.searchParams.get('sessionId') || '');
+      if (!session) {
+        res.writeHead(404).end('Unknown session');
+        return;
+      }
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    res.writeHead(405).end('Method not allowed');
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.options.authToken) {
+      return true;
+    }
+
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.options.authToken);
+    const actual = Buffer.from(match[1]);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+}
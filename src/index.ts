@@ -3,59 +3,277 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  Resource,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { getOpenAPIParser, FortnoxEndpoint, Parameter, Schema } from './openapi-parser.js';
+import { getOpenAPIParser, createOpenAPIParser, setOpenAPIParser, OpenAPIParser, FortnoxEndpoint, Parameter, Schema } from './openapi-parser.js';
+import { getSpecSources, isSpecWatchEnabled, watchSpecSources } from './spec-loader.js';
+import { resolveEndpointPath, FortnoxAPIClient, FortnoxPage, MULTIPART_FORM_DATA } from './fortnox-client.js';
+import { ProfileRegistry, ProfileGuard, loadProfiles } from './profiles.js';
+import { classifyRisk, isRisky, confirmationStep, ConfirmationTokens, RiskLevel } from './safeguards.js';
+import { isBinaryContent, declaresBinaryResponse, saveBinaryContent, getDownloadDir, getUploadDir, resolveUploadPath, BinaryContent } from './binary-content.js';
+import { detectPagination } from './pagination.js';
+import { RequestValidator } from './request-validator.js';
+import { SchemaRenderer } from './schema-renderer.js';
+import { ExampleGenerator, ExampleMode } from './example-generator.js';
+import { TypeGenerator } from './type-generator.js';
+import { SnippetGenerator, SnippetTarget, SNIPPET_TARGETS } from './snippet-generator.js';
+import { SearchIndex, SchemaSearchIndex } from './search-index.js';
+import { SpecDiffer, renderSpecDiffMarkdown } from './spec-differ.js';
+import { WorkflowPrompts } from './workflow-prompts.js';
+import { RESOURCE_TEMPLATES, endpointUri, schemaUri, tagUri, parseResourceUri } from './resource-uris.js';
+import { HttpTransportServer, HttpTransportOptions } from './http-transport.js';
+import { isCliCommand, parseOptions, runCli } from './cli.js';
+
+const RESOURCE_PAGE_SIZE = 100;
+const DEFAULT_FETCH_ALL_MAX_ITEMS = 1000;
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3000;
 
 interface ToolCallArguments {
   [key: string]: string | number | boolean | object | undefined;
 }
 
 export class FortnoxMCPServer {
-  private server: Server;
-  private endpoints: FortnoxEndpoint[];
-  private parser: any;
+  // One MCP server per connected client: a single one on stdio, one per session over HTTP
+  private servers = new Set<Server>();
+  private httpServer: HttpTransportServer | null = null;
+  private stopWatching: (() => void) | null = null;
+  private confirmations = new ConfirmationTokens();
+  private profiles: ProfileRegistry;
+  // Everything derived from the spec is (re)built by loadSpec
+  private endpoints!: FortnoxEndpoint[];
+  private parser!: OpenAPIParser;
+  private validator!: RequestValidator;
+  private renderer!: SchemaRenderer;
+  private examples!: ExampleGenerator;
+  private types!: TypeGenerator;
+  private snippets!: SnippetGenerator;
+  private searchIndex!: SearchIndex;
+  private schemaIndex!: SchemaSearchIndex;
+  private prompts!: WorkflowPrompts;
 
   constructor() {
-    this.server = new Server(
+    // Load endpoints from OpenAPI spec
+    this.loadSpec(getOpenAPIParser());
+
+    // Live API calls are opt-in: only enabled when a profile is configured
+    this.profiles = loadProfiles();
+  }
+
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'fortnox-api-documentation-server',
         version: '1.0.0',
       },
       {
         capabilities: {
-          tools: {},
+          tools: {
+            listChanged: true,
+          },
+          resources: {
+            listChanged: true,
+          },
+          prompts: {
+            listChanged: true,
+          },
         },
       }
     );
 
-    // Load endpoints from OpenAPI spec
-    this.parser = getOpenAPIParser();
-    this.endpoints = this.parser.getAllEndpoints();
+    this.setupHandlers(server);
+    this.servers.add(server);
+    server.onclose = () => {
+      this.servers.delete(server);
+    };
+    return server;
+  }
+
+  /**
+   * Build everything derived from the spec, then switch to it at once
+   * When anything fails to build, the current spec and the shared parser stay in place.
+   */
+  private loadSpec(parser: OpenAPIParser): void {
+    const endpoints = parser.getAllEndpoints();
+    const validator = new RequestValidator(parser);
+    const renderer = new SchemaRenderer(parser);
+    const examples = new ExampleGenerator(parser);
+    const types = new TypeGenerator(parser);
+    const snippets = new SnippetGenerator(parser, examples);
+    const searchIndex = new SearchIndex(endpoints);
+    const schemaIndex = new SchemaSearchIndex(parser);
+    const prompts = new WorkflowPrompts(parser);
+
+    setOpenAPIParser(parser);
+    this.parser = parser;
+    this.endpoints = endpoints;
+    this.validator = validator;
+    this.renderer = renderer;
+    this.examples = examples;
+    this.types = types;
+    this.snippets = snippets;
+    this.searchIndex = searchIndex;
+    this.schemaIndex = schemaIndex;
+    this.prompts = prompts;
+  }
 
-    this.setupHandlers();
+  /**
+   * Reload the configured specs after they changed on disk and tell the client
+   * A spec that fails to load is reported and the previous one is kept.
+   */
+  private async reloadSpec(): Promise<void> {
+    try {
+      this.loadSpec(createOpenAPIParser());
+      console.error(`Reloaded OpenAPI specification: ${this.endpoints.length} endpoints`);
+      await Promise.all(Array.from(this.servers).map(async server => {
+        await server.sendToolListChanged();
+        await server.sendResourceListChanged();
+        await server.sendPromptListChanged();
+      }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Failed to reload OpenAPI specification, keeping the previous one: ${errorMessage}`);
+    }
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: this.generateTools(),
       };
     });
 
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      return this.handleToolCall(request.params.name, request.params.arguments as ToolCallArguments);
+    // Handle tool calls; live calls running at the same time in this session must use the same profile
+    const guard = new ProfileGuard();
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      return this.handleToolCall(request.params.name, request.params.arguments as ToolCallArguments, guard);
+    });
+
+    // Endpoints, schemas and resource groups as browsable resources
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      return this.listResources(request.params?.cursor);
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: RESOURCE_TEMPLATES,
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return this.readResource(request.params.uri);
+    });
+
+    // Step-by-step workflows built from the spec
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: this.prompts.list(),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      try {
+        return this.prompts.render(request.params.name, request.params.arguments);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InvalidParams, errorMessage);
+      }
     });
   }
 
+  /**
+   * One page of endpoint, schema and tag resources; the cursor is the offset of the next page
+   */
+  private listResources(cursor?: string): { resources: Resource[]; nextCursor?: string } {
+    const offset = cursor ? Number(cursor) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+    }
+
+    const schemaNames = Object.keys(this.parser.getSpec().components?.schemas || {}).sort();
+    const tags = Array.from(new Set(this.endpoints.flatMap(e => e.tags || []))).sort();
+
+    const resources: Resource[] = [
+      ...this.endpoints.map(endpoint => ({
+        uri: endpointUri(endpoint),
+        name: `${endpoint.method} ${endpoint.path}`,
+        description: endpoint.summary,
+        mimeType: 'text/markdown',
+      })),
+      ...schemaNames.map(name => ({
+        uri: schemaUri(name),
+        name,
+        description: `Schema ${name}`,
+        mimeType: 'text/markdown',
+      })),
+      ...tags.map(tag => ({
+        uri: tagUri(tag),
+        name: tag,
+        description: `Endpoints in ${tag}`,
+        mimeType: 'text/markdown',
+      })),
+    ];
+
+    const next = offset + RESOURCE_PAGE_SIZE;
+    return {
+      resources: resources.slice(offset, next),
+      nextCursor: next < resources.length ? String(next) : undefined,
+    };
+  }
+
+  /**
+   * Render a fortnox:// resource with the same markdown as the matching tool
+   */
+  private readResource(uri: string): { contents: Array<{ uri: string; mimeType: string; text: string }> } {
+    const ref = parseResourceUri(uri);
+    let result: any;
+
+    switch (ref?.kind) {
+      case 'endpoint':
+        result = this.getEndpointDetails({ method: ref.method, path: ref.path });
+        break;
+      case 'schema':
+        result = this.getSchemaDetails({ schemaName: ref.name });
+        break;
+      case 'tag':
+        result = this.endpoints.some(e => e.tags?.includes(ref.tag))
+          ? this.listAllEndpoints({ tag: ref.tag })
+          : { content: [{ type: 'text', text: `No endpoints found for tag: ${ref.tag}` }], isError: true };
+        break;
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    if (result.isError) {
+      throw new McpError(ErrorCode.InvalidParams, result.content[0].text);
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'text/markdown',
+          text: result.content[0].text,
+        },
+      ],
+    };
+  }
+
   /**
    * Generate MCP tools for exploring Fortnox API documentation
    */
   private generateTools(): Tool[] {
-    return [
+    const tools: Tool[] = [
       {
         name: 'get_api_overview',
         description: 'Get comprehensive overview of the Fortnox API including base URL, authentication requirements, rate limits, and available resource groups. Use this FIRST to understand the API before exploring specific endpoints.',
@@ -101,6 +319,19 @@ export class FortnoxMCPServer {
               description: 'The HTTP method (must match exactly)',
               enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
             },
+            format: {
+              type: 'string',
+              description: 'Optional: "table" renders a flat field table with the Fortnox *_Wrap envelope unwrapped, "json" returns the raw schema (default: table)',
+              enum: ['table', 'json'],
+            },
+            expand: {
+              type: 'boolean',
+              description: 'Optional: With format "json", inline all nested $ref schemas in the request and response schemas (default: false)',
+            },
+            maxDepth: {
+              type: 'number',
+              description: 'Optional: Maximum $ref nesting to expand for tables and expanded JSON (default: 10)',
+            },
           },
           required: ['path', 'method'],
         },
@@ -121,13 +352,13 @@ export class FortnoxMCPServer {
       },
       {
         name: 'search_endpoints',
-        description: 'Search across all endpoints by keyword. Searches in: path, summary, description, and tags. Returns ranked results. Use this when you know what you want to do but not the exact endpoint name.',
+        description: 'Search across all endpoints by keyword. Searches in: path, operation ID, summary, description, and tags. Returns results ranked by relevance with typo tolerance and Swedish/English synonyms (e.g., "faktura" finds invoices, "kund" finds customers). Use this when you know what you want to do but not the exact endpoint name.',
         inputSchema: {
           type: 'object',
           properties: {
             keyword: {
               type: 'string',
-              description: 'Search keyword (e.g., "customer", "invoice", "payment", "bookkeep", "email")',
+              description: 'Search keywords (e.g., "customer", "invoice payment", "bookkeep", "skicka faktura")',
             },
             limit: {
               type: 'number',
@@ -137,6 +368,24 @@ export class FortnoxMCPServer {
           required: ['keyword'],
         },
       },
+      {
+        name: 'search_schemas',
+        description: 'Search every schema and nested property by property name, description and enum values. Answers questions like "which schemas have an OCR field?" or "where does YourOrderNumber appear?". Returns schema name, property path, type and the endpoints whose request or response uses the schema.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Property name, words from a description, or an enum value (e.g., "OCR", "YourOrderNumber", "CASHINVOICE")',
+            },
+            limit: {
+              type: 'number',
+              description: 'Optional: Maximum number of results to return (default: 20)',
+            },
+          },
+          required: ['query'],
+        },
+      },
       {
         name: 'list_resource_groups',
         description: 'List all 81 resource groups in the Fortnox API with endpoint counts. Resource groups represent different business entities (Customers, Invoices, Products, etc.). Use this to discover what resources are available.',
@@ -147,7 +396,34 @@ export class FortnoxMCPServer {
       },
       {
         name: 'get_schema_details',
-        description: 'Get detailed schema information for a specific data model referenced in the API.',
+        description: 'Get detailed schema information for a specific data model referenced in the API. Returns a field table by default; use format "json" with expand to get the fully resolved schema.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            schemaName: {
+              type: 'string',
+              description: 'The schema name (e.g., fortnox_Customer, fortnox_Invoice)',
+            },
+            format: {
+              type: 'string',
+              description: 'Optional: "table" renders a flat field table with the Fortnox *_Wrap envelope unwrapped, "json" returns the raw schema (default: table)',
+              enum: ['table', 'json'],
+            },
+            expand: {
+              type: 'boolean',
+              description: 'Optional: With format "json", inline all nested $ref schemas so the full structure is returned in one call (default: false)',
+            },
+            maxDepth: {
+              type: 'number',
+              description: 'Optional: Maximum $ref nesting to expand for tables and expanded JSON (default: 10)',
+            },
+          },
+          required: ['schemaName'],
+        },
+      },
+      {
+        name: 'find_schema_usages',
+        description: 'Reverse lookup for a schema: list every endpoint whose parameters, request body or response uses it (directly or through other schemas), the schemas that reference it, and the schemas it depends on. Use this to judge the impact of a schema change.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -159,13 +435,282 @@ export class FortnoxMCPServer {
           required: ['schemaName'],
         },
       },
+      {
+        name: 'validate_request',
+        description: 'Validate path parameters, query parameters and a request body against the OpenAPI definitions of an endpoint without calling the API. Checks required fields, enums, lengths, min/max, patterns and formats (date, int64), including nested objects. Returns field-level errors with JSON pointers (e.g., /body/Invoice/InvoiceRows/0/DeliveredQuantity).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'The API endpoint path template exactly as documented (e.g., /3/invoices/{DocumentNumber})',
+            },
+            method: {
+              type: 'string',
+              description: 'The HTTP method (must match exactly)',
+              enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
+            },
+            pathParams: {
+              type: 'object',
+              description: 'Optional: Values for the path placeholders (e.g., { "DocumentNumber": "1001" })',
+            },
+            queryParams: {
+              type: 'object',
+              description: 'Optional: Query parameters to validate',
+            },
+            body: {
+              type: 'object',
+              description: 'Optional: JSON request body to validate',
+            },
+          },
+          required: ['path', 'method'],
+        },
+      },
+      {
+        name: 'generate_example',
+        description: 'Generate an example request body and response body for an endpoint from its OpenAPI schemas. Honors enums, formats (date, int64, email), min/max, maxLength and nested schemas. Use mode "required" for a minimal valid payload.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'The API endpoint path exactly as shown in list_all_endpoints (e.g., /3/invoices)',
+            },
+            method: {
+              type: 'string',
+              description: 'The HTTP method (must match exactly)',
+              enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
+            },
+            mode: {
+              type: 'string',
+              description: 'Optional: "required" includes only required fields, "all" includes every field (default: all)',
+              enum: ['required', 'all'],
+            },
+          },
+          required: ['path', 'method'],
+        },
+      },
+      {
+        name: 'generate_types',
+        description: 'Generate TypeScript interfaces from the OpenAPI schemas, with string-literal unions for enums, optional markers for non-required properties and JSDoc from descriptions and constraints. Pass path+method or tag to limit output to the schemas one endpoint or resource group uses; without them all schemas are generated.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Optional: Endpoint path (requires method), e.g. /3/invoices',
+            },
+            method: {
+              type: 'string',
+              description: 'Optional: HTTP method of the endpoint',
+              enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
+            },
+            tag: {
+              type: 'string',
+              description: 'Optional: Resource group (e.g., fortnox_Invoices)',
+            },
+          },
+        },
+      },
+      {
+        name: 'generate_code_snippet',
+        description: 'Generate ready-to-run code that calls an endpoint: curl, TypeScript fetch, TypeScript using FortnoxAPIClient, and Python requests. Path parameters, required query parameters and an example body are filled in, with the same headers the client sends.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'The API endpoint path exactly as shown in list_all_endpoints (e.g., /3/invoices/{DocumentNumber})',
+            },
+            method: {
+              type: 'string',
+              description: 'The HTTP method (must match exactly)',
+              enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
+            },
+            targets: {
+              type: 'array',
+              description: 'Optional: Targets to generate (default: all)',
+              items: {
+                type: 'string',
+                enum: SNIPPET_TARGETS,
+              },
+            },
+            mode: {
+              type: 'string',
+              description: 'Optional: Example body with "required" fields only or "all" fields (default: required)',
+              enum: ['required', 'all'],
+            },
+          },
+          required: ['path', 'method'],
+        },
+      },
+      {
+        name: 'diff_specs',
+        description: 'Compare two versions of the Fortnox OpenAPI spec and report added/removed endpoints, new required parameters, removed or retyped schema properties, enum changes and newly deprecated operations. Every change is classified as breaking or non-breaking.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            oldSpecPath: {
+              type: 'string',
+              description: 'Path to the previous openapi.json',
+            },
+            newSpecPath: {
+              type: 'string',
+              description: 'Optional: Path to the new openapi.json (default: the spec this server has loaded)',
+            },
+            format: {
+              type: 'string',
+              description: 'Optional: "markdown" report or "json" (default: markdown)',
+              enum: ['markdown', 'json'],
+            },
+            breakingOnly: {
+              type: 'boolean',
+              description: 'Optional: Only report breaking changes (default: false)',
+            },
+          },
+          required: ['oldSpecPath'],
+        },
+      },
+    ];
+
+    if (this.profiles.list().length > 0) {
+      tools.push(...this.generateLiveTools());
+    }
+
+    return tools;
+  }
+
+  /**
+   * Generate MCP tools that call the live Fortnox API (requires a profile, e.g. from FORTNOX_ACCESS_TOKEN)
+   */
+  private generateLiveTools(): Tool[] {
+    const profileNames = this.profiles.list().map(profile => profile.name);
+
+    return [
+      {
+        name: 'list_profiles',
+        description: 'List the Fortnox companies (profiles) live calls can be made against, with their base URL, authentication and whether they are ready. Pass a profile name as the profile argument of call_endpoint.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'call_endpoint',
+        description: 'Call a Fortnox API endpoint on the configured account and return the response. The path and method must match an endpoint from list_all_endpoints. Use get_endpoint_details first to see which parameters and body the endpoint expects. Destructive calls (DELETE) and irreversible accounting actions (bookkeep, approvalbookkeep, cancel, credit, finish, and void or complete on warehouse documents) are not sent: they return a dry run with a confirmationToken, and only run when called again with the same arguments and that token.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'The API endpoint path template exactly as documented (e.g., /3/invoices/{DocumentNumber})',
+            },
+            method: {
+              type: 'string',
+              description: 'The HTTP method (must match exactly)',
+              enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
+            },
+            pathParams: {
+              type: 'object',
+              description: 'Optional: Values for the path placeholders (e.g., { "DocumentNumber": "1001" })',
+            },
+            queryParams: {
+              type: 'object',
+              description: 'Optional: Query parameters (e.g., { "filter": "unpaid" })',
+            },
+            body: {
+              type: 'object',
+              description: 'Optional: JSON request body for POST, PUT and PATCH requests',
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Return the resolved request without sending it. Destructive and irreversible calls always get a dry run first, whatever this is set to, and run only with its confirmationToken',
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Optional: Token from the dry run of this exact call, to execute a destructive or irreversible call. Valid once, for 5 minutes',
+            },
+            retryNonIdempotent: {
+              type: 'boolean',
+              description: 'Optional: Also retry POST/PATCH after 429, 5xx or network errors. Only set this when repeating the request cannot create duplicates (default: false)',
+            },
+            fetchAll: {
+              type: 'boolean',
+              description: 'Optional: For GET list endpoints, request every page and return the combined items (default: false)',
+            },
+            maxItems: {
+              type: 'integer',
+              minimum: 1,
+              description: `Optional: With fetchAll, stop after this many items, a positive integer (default: ${DEFAULT_FETCH_ALL_MAX_ITEMS})`,
+            },
+            download: {
+              type: 'string',
+              description: 'Optional: What to do with a file response such as an invoice PDF: "embed" it in the result, or "save" it to the download directory (FORTNOX_DOWNLOAD_DIR) and return the path (default: save when a download directory is configured)',
+              enum: ['embed', 'save'],
+            },
+            profile: {
+              type: 'string',
+              description: `Optional: Profile (company) to call, see list_profiles (default: ${this.profiles.defaultProfile}). Calls running at the same time must use the same profile`,
+              enum: profileNames,
+            },
+          },
+          required: ['path', 'method'],
+        },
+      },
+      {
+        name: 'upload_file',
+        description: 'Upload a file as multipart/form-data to a Fortnox endpoint that accepts uploads, such as POST /3/inbox or POST /3/archive. Pass either the content as base64 or a filePath inside the upload directory (FORTNOX_UPLOAD_DIR).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'The API endpoint path template exactly as documented (e.g., /3/inbox)',
+            },
+            pathParams: {
+              type: 'object',
+              description: 'Optional: Values for the path placeholders',
+            },
+            queryParams: {
+              type: 'object',
+              description: 'Optional: Query parameters (e.g., { "path": "inbox_kf" } to pick the folder)',
+            },
+            filePath: {
+              type: 'string',
+              description: 'Optional: Path of the file to upload, inside the upload directory (FORTNOX_UPLOAD_DIR); relative paths are taken from there',
+            },
+            base64: {
+              type: 'string',
+              description: 'Optional: File content as base64, instead of filePath',
+            },
+            filename: {
+              type: 'string',
+              description: 'Optional: File name sent to Fortnox (default: the name of filePath; required with base64)',
+            },
+            mimeType: {
+              type: 'string',
+              description: 'Optional: Media type of the file (default: from the file name)',
+            },
+            fields: {
+              type: 'object',
+              description: 'Optional: Further form fields sent with the file',
+            },
+            profile: {
+              type: 'string',
+              description: `Optional: Profile (company) to upload to, see list_profiles (default: ${this.profiles.defaultProfile})`,
+              enum: profileNames,
+            },
+          },
+          required: ['path'],
+        },
+      },
     ];
   }
 
   /**
    * Handle tool execution - returns documentation only
    */
-  private async handleToolCall(toolName: string, args: ToolCallArguments): Promise<any> {
+  private async handleToolCall(toolName: string, args: ToolCallArguments, guard: ProfileGuard): Promise<any> {
     try {
       switch (toolName) {
         case 'get_api_overview':
@@ -178,10 +723,30 @@ export class FortnoxMCPServer {
           return this.getEndpointsByResource(args);
         case 'search_endpoints':
           return this.searchEndpoints(args);
+        case 'search_schemas':
+          return this.searchSchemas(args);
         case 'list_resource_groups':
           return this.listResourceGroups();
         case 'get_schema_details':
           return this.getSchemaDetails(args);
+        case 'find_schema_usages':
+          return this.findSchemaUsages(args);
+        case 'generate_example':
+          return this.generateExample(args);
+        case 'generate_types':
+          return this.generateTypes(args);
+        case 'generate_code_snippet':
+          return this.generateCodeSnippet(args);
+        case 'validate_request':
+          return this.validateRequest(args);
+        case 'diff_specs':
+          return this.diffSpecs(args);
+        case 'list_profiles':
+          return this.listProfiles();
+        case 'call_endpoint':
+          return await this.callEndpoint(args, guard);
+        case 'upload_file':
+          return await this.uploadFile(args, guard);
         default:
           return {
             content: [
@@ -233,9 +798,9 @@ export class FortnoxMCPServer {
 - **Base URL**: ${baseUrl}
 
 ## Authentication
-Based on the OpenAPI spec, Fortnox API uses:
-- **Access-Token**: Required header for authentication
-- **Client-Secret**: Optional header for certain endpoints
+Fortnox API uses:
+- **Authorization**: \`Bearer <access token>\` header with an OAuth2 access token
+- **Tokens**: Issued by the authorization code flow and refreshed with the refresh token before they expire
 
 ## Rate Limits (from documentation)
 - **25 requests per 5 seconds** per access token
@@ -355,6 +920,7 @@ ${filteredEndpoints.length > limit ? `\n*Note: ${filteredEndpoints.length - limi
     const queryParams = endpoint.parameters.filter(p => p.in === 'query');
     const requiredParams = endpoint.parameters.filter(p => p.required);
     const optionalParams = endpoint.parameters.filter(p => !p.required);
+    const pagination = detectPagination(this.parser, endpoint);
 
     const markdown = `# ${endpoint.method} ${endpoint.path}
 
@@ -386,27 +952,28 @@ ${queryParams.map(p => `- **${p.name}** (${p.schema?.type || 'unknown'})${p.requ
 ${endpoint.requestBodySchema ? `## Request Body
 Required for ${endpoint.method} requests.
 
-\`\`\`json
-${JSON.stringify(endpoint.requestBodySchema, null, 2)}
-\`\`\`
+${this.renderSchema(endpoint.requestBodySchema, args)}
 ` : '## Request Body\nNot applicable for this endpoint.\n'}
 
 ${endpoint.responseSchema ? `## Response Schema
-\`\`\`json
-${JSON.stringify(endpoint.responseSchema, null, 2)}
-\`\`\`
+${this.renderSchema(endpoint.responseSchema, args)}
 ` : '## Response\nResponse schema not documented in OpenAPI spec.\n'}
 
 ## Quick Reference
-- **Base URL**: https://api.fortnox.se
-- **Full URL**: https://api.fortnox.se${endpoint.path}
+- **Base URL**: ${this.parser.getBaseUrl(endpoint)}
+- **Full URL**: ${this.parser.getBaseUrl(endpoint)}${endpoint.path}
 - **Required Parameters**: ${requiredParams.length > 0 ? requiredParams.map(p => p.name).join(', ') : 'None'}
 - **Optional Parameters**: ${optionalParams.length > 0 ? optionalParams.map(p => p.name).join(', ') : 'None'}
+- **Risk**: ${classifyRisk(endpoint)}${isRisky(classifyRisk(endpoint)) ? ' (`call_endpoint` returns a dry run and needs a confirmation token)' : ''}
+- **Request Content Types**: ${endpoint.requestContentTypes?.join(', ') || 'None'}${endpoint.requestContentTypes?.includes(MULTIPART_FORM_DATA) ? ' (send files with `upload_file`)' : ''}
+- **Response Type**: ${endpoint.responseContentType || 'Not documented'}${declaresBinaryResponse(endpoint) ? ' (file, returned by `call_endpoint` as an embedded resource or saved to the download directory)' : ''}
+- **Pagination**: ${pagination ? `\`${pagination.pageParam}\` and \`${pagination.limitParam}\` query parameters${pagination.itemsKey ? `, items in \`${pagination.itemsKey}\`` : ''} (use \`call_endpoint\` with \`fetchAll\` to get every page)` : 'Not documented'}
 
 ## Notes for Implementation
-1. Authentication: Include 'Access-Token' header
+1. Authentication: Include 'Authorization: Bearer <access token>' header
 2. Rate Limit: 25 requests per 5 seconds
 3. Content-Type: application/json
+4. Use \`generate_code_snippet\` for ready-to-run curl, TypeScript and Python calls
 `;
 
     return {
@@ -507,27 +1074,19 @@ Use \`get_endpoint_details\` with the specific path and method to see full docum
   }
 
   private searchEndpoints(args: ToolCallArguments): any {
-    const keyword = (args.keyword as string).toLowerCase();
+    const keyword = args.keyword as string;
     const limit = args.limit ? Number(args.limit) : 20;
 
-    const results = this.endpoints.filter(endpoint => {
-      const pathMatch = endpoint.path.toLowerCase().includes(keyword);
-      const summaryMatch = endpoint.summary?.toLowerCase().includes(keyword);
-      const descMatch = endpoint.description?.toLowerCase().includes(keyword);
-      const tagMatch = endpoint.tags?.some(t => t.toLowerCase().includes(keyword));
-      const operationMatch = endpoint.operationId.toLowerCase().includes(keyword);
-
-      return pathMatch || summaryMatch || descMatch || tagMatch || operationMatch;
-    });
-
-    const limitedResults = results.slice(0, limit);
+    const results = this.searchIndex.search(keyword);
+    const limitedResults = results.slice(0, limit);
 
     const markdown = `# Search Results for "${keyword}"
 
 **Total Matches**: ${results.length} endpoints
-**Showing**: ${limitedResults.length} endpoints
+**Showing**: ${limitedResults.length} endpoints (ranked by relevance)
 
-${limitedResults.map((e, i) => `## ${i + 1}. ${e.method} ${e.path}
+${limitedResults.map(({ endpoint: e, score, matchedFields }, i) => `## ${i + 1}. ${e.method} ${e.path}
+- **Score**: ${score} (matched: ${matchedFields.join(', ')})
 - **Summary**: ${e.summary || 'No summary'}
 - **Operation**: ${e.operationId}
 - **Tags**: ${e.tags?.join(', ') || 'None'}
@@ -549,6 +1108,50 @@ ${results.length > 0 ? '\n**Tip**: Use `get_endpoint_details` with the exact pat
     };
   }
 
+  private searchSchemas(args: ToolCallArguments): any {
+    const query = args.query as string;
+    const limit = args.limit ? Number(args.limit) : 20;
+
+    const results = this.schemaIndex.search(query);
+    const limitedResults = results.slice(0, limit);
+
+    if (results.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No schemas or properties found matching "${query}"\n\nTip: Try a property name such as "CustomerNumber" or an enum value.`,
+          },
+        ],
+      };
+    }
+
+    const markdown = `# Schema Search Results for "${query}"
+
+**Total Matches**: ${results.length}
+**Showing**: ${limitedResults.length}
+
+${limitedResults.map((r, i) => `## ${i + 1}. ${r.schemaName}${r.propertyPath ? ` → ${r.propertyPath}` : ''}
+- **Type**: ${r.type}
+- **Score**: ${r.score} (matched: ${r.matchedFields.join(', ')})
+${r.description ? `- **Description**: ${r.description.substring(0, 150)}${r.description.length > 150 ? '...' : ''}\n` : ''}${r.enumValues.length > 0 ? `- **Allowed values**: ${r.enumValues.join(', ')}\n` : ''}- **Used by**: ${r.usages.length === 0 ? 'No endpoint uses this schema' : `${r.usages.slice(0, 5).map(u => `${u.endpoint.method} ${u.endpoint.path} (${u.locations.join('/')})`).join(', ')}${r.usages.length > 5 ? ` and ${r.usages.length - 5} more` : ''}`}
+`).join('\n')}
+
+${results.length > limit ? `\n**Note**: ${results.length - limit} additional results not shown. Use the limit parameter to see more.` : ''}
+
+**Tip**: Use \`get_schema_details\` with a schema name to see all of its fields.
+`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: markdown,
+        },
+      ],
+    };
+  }
+
   private listResourceGroups(): any {
     const tagCounts: Record<string, number> = {};
 
@@ -635,47 +1238,839 @@ ${sorted.sort((a, b) => a[0].localeCompare(b[0])).map(([tag, count]) =>
       };
     }
 
+    const rendered = this.renderSchema({ $ref: `#/components/schemas/${schemaName}` }, args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `# Schema: ${schemaName}\n\n${schema.description ? `${schema.description}\n\n` : ''}${rendered}`,
+        },
+      ],
+    };
+  }
+
+  private findSchemaUsages(args: ToolCallArguments): any {
+    const schemaName = args.schemaName as string;
+
+    if (!this.parser.resolveSchemaRef(`#/components/schemas/${schemaName}`)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Schema not found: ${schemaName}\n\nTip: Use search_schemas to find the correct schema name.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const usages = this.parser.getSchemaUsages(schemaName);
+    const directDependents = this.parser.getSchemaDependents(schemaName);
+    const allDependents = this.parser.getSchemaDependents(schemaName, { transitive: true });
+    const directDependencies = this.parser.getSchemaDependencies(schemaName);
+    const allDependencies = this.parser.getSchemaDependencies(schemaName, { transitive: true });
+
+    const listNames = (names: string[]) => names.length > 0
+      ? names.sort().map(name => `- ${name}`).join('\n')
+      : '_None_';
+
+    const indirectDependents = allDependents.filter(name => !directDependents.includes(name));
+    const indirectDependencies = allDependencies.filter(name => !directDependencies.includes(name));
+
+    let text = `# Usages of ${schemaName}\n\n`;
+    text += `Used by **${usages.length}** endpoint(s) (${usages.filter(u => u.direct).length} directly) and referenced by **${allDependents.length}** other schema(s).\n\n`;
+
+    text += `## Endpoints\n\n`;
+    if (usages.length === 0) {
+      text += `_No endpoint uses this schema_\n\n`;
+    } else {
+      text += `| Method | Path | Used In | Reference |\n`;
+      text += `|--------|------|---------|-----------|\n`;
+      for (const usage of usages) {
+        text += `| ${usage.endpoint.method} | ${usage.endpoint.path} | ${usage.locations.join(', ')} | ${usage.direct ? 'direct' : 'transitive'} |\n`;
+      }
+      text += `\n`;
+    }
+
+    text += `## Referenced By\n\n`;
+    text += `### Directly (${directDependents.length})\n\n${listNames(directDependents)}\n\n`;
+    text += `### Transitively (${indirectDependents.length})\n\n${listNames(indirectDependents)}\n\n`;
+
+    text += `## Depends On\n\n`;
+    text += `### Directly (${directDependencies.length})\n\n${listNames(directDependencies)}\n\n`;
+    text += `### Transitively (${indirectDependencies.length})\n\n${listNames(indirectDependencies)}\n`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Render a schema as a field table (default) or as a JSON block
+   */
+  private renderSchema(schema: Schema, args: ToolCallArguments): string {
+    const maxDepth = args.maxDepth !== undefined ? Number(args.maxDepth) : undefined;
+
+    if (args.format === 'json') {
+      const displayed = args.expand
+        ? this.parser.dereferenceSchema(schema, { maxDepth })
+        : schema.$ref ? this.parser.resolveSchemaRef(schema.$ref) || schema : schema;
+      return `\`\`\`json\n${JSON.stringify(displayed, null, 2)}\n\`\`\``;
+    }
+
+    return this.renderer.renderTable(schema, { maxDepth });
+  }
+
+  private validateRequest(args: ToolCallArguments): any {
+    const path = args.path as string;
+    const method = (args.method as string).toUpperCase();
+
+    const endpoint = this.endpoints.find(
+      e => e.path === path && e.method === method
+    );
+
+    if (!endpoint) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Endpoint not found: ${method} ${path}\n\nTip: Use search_endpoints or list_all_endpoints to find the correct path.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const result = this.validator.validateRequest(endpoint, {
+      pathParams: args.pathParams as Record<string, unknown> | undefined,
+      queryParams: args.queryParams as Record<string, unknown> | undefined,
+      body: args.body,
+    });
+
+    const markdown = `# Validation: ${endpoint.method} ${endpoint.path}
+
+**Result**: ${result.valid ? 'Valid' : `Invalid (${result.errors.length} error${result.errors.length === 1 ? '' : 's'})`}
+
+${result.errors.length > 0 ? `## Errors
+
+| Pointer | Rule | Message |
+|---------|------|---------|
+${result.errors.map(e => `| \`${e.pointer}\` | ${e.keyword} | ${e.message.replace(/\|/g, '\\|')} |`).join('\n')}
+
+\`\`\`json
+${JSON.stringify(result.errors, null, 2)}
+\`\`\`
+` : 'The request matches the OpenAPI definitions for this endpoint.'}
+`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: markdown,
+        },
+      ],
+    };
+  }
+
+  private generateExample(args: ToolCallArguments): any {
+    const path = args.path as string;
+    const method = (args.method as string).toUpperCase();
+    const mode = (args.mode as ExampleMode) || 'all';
+
+    const endpoint = this.endpoints.find(
+      e => e.path === path && e.method === method
+    );
+
+    if (!endpoint) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Endpoint not found: ${method} ${path}\n\nTip: Use search_endpoints or list_all_endpoints to find the correct path.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const requestExample = endpoint.requestBodySchema
+      ? this.examples.generate(endpoint.requestBodySchema, { mode })
+      : undefined;
+    const responseExample = endpoint.responseSchema
+      ? this.examples.generate(endpoint.responseSchema, { mode: 'all' })
+      : undefined;
+
+    const markdown = `# Examples: ${endpoint.method} ${endpoint.path}
+
+**Mode**: ${mode === 'required' ? 'Required fields only' : 'All fields'}
+
+${requestExample !== undefined ? `## Request Body
+\`\`\`json
+${JSON.stringify(requestExample, null, 2)}
+\`\`\`
+` : '## Request Body\nNot applicable for this endpoint.\n'}
+
+${responseExample !== undefined ? `## Response Body
+\`\`\`json
+${JSON.stringify(responseExample, null, 2)}
+\`\`\`
+` : '## Response Body\nResponse schema not documented in OpenAPI spec.\n'}
+
+**Tip**: Use \`validate_request\` to check a payload after editing the example.
+`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: markdown,
+        },
+      ],
+    };
+  }
+
+  private generateTypes(args: ToolCallArguments): any {
+    let endpoint: FortnoxEndpoint | undefined;
+
+    if (args.path || args.method) {
+      const path = args.path as string;
+      const method = ((args.method as string) || '').toUpperCase();
+      endpoint = this.endpoints.find(e => e.path === path && e.method === method);
+
+      if (!endpoint) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Endpoint not found: ${method} ${path}\n\nTip: Use search_endpoints or list_all_endpoints to find the correct path.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    const tag = args.tag as string | undefined;
+    if (tag && !endpoint && this.parser.getEndpointsByTag(tag).length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No endpoints found for tag: ${tag}\n\nTip: Use list_resource_groups to see all available tags.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const schemaCount = this.types.selectSchemaNames({ endpoint, tag }).length;
+    const source = this.types.generate({ endpoint, tag });
+    const scope = endpoint ? `${endpoint.method} ${endpoint.path}` : tag || 'all schemas';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `# TypeScript Types: ${scope}\n\n**Schemas**: ${schemaCount}\n\n\`\`\`typescript\n${source}\`\`\``,
+        },
+      ],
+    };
+  }
+
+  private generateCodeSnippet(args: ToolCallArguments): any {
+    const path = args.path as string;
+    const method = (args.method as string).toUpperCase();
+
+    const endpoint = this.endpoints.find(
+      e => e.path === path && e.method === method
+    );
+
+    if (!endpoint) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Endpoint not found: ${method} ${path}\n\nTip: Use search_endpoints or list_all_endpoints to find the correct path.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const targets = Array.isArray(args.targets) && args.targets.length > 0
+      ? args.targets as SnippetTarget[]
+      : SNIPPET_TARGETS;
+    const unknownTargets = targets.filter(t => !SNIPPET_TARGETS.includes(t));
+
+    if (unknownTargets.length > 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Unknown snippet target: ${unknownTargets.join(', ')}\n\nAvailable targets: ${SNIPPET_TARGETS.join(', ')}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const snippets = this.snippets.generate(endpoint, targets, { mode: args.mode as ExampleMode | undefined });
+
+    const markdown = `# Code Snippets: ${endpoint.method} ${endpoint.path}
+
+${endpoint.summary ? `${endpoint.summary}\n\n` : ''}The access token is read from the \`FORTNOX_ACCESS_TOKEN\` environment variable. Example values are generated from the spec, replace them with real data.
+
+${snippets.map(snippet => `## ${snippet.target}
+\`\`\`${snippet.language}
+${snippet.code}
+\`\`\`
+`).join('\n')}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: markdown,
+        },
+      ],
+    };
+  }
+
+  private diffSpecs(args: ToolCallArguments): any {
+    const from = new OpenAPIParser(args.oldSpecPath as string);
+    const to = args.newSpecPath ? new OpenAPIParser(args.newSpecPath as string) : this.parser;
+    const diff = new SpecDiffer(from, to).diff();
+    const breakingOnly = Boolean(args.breakingOnly);
+
+    const text = args.format === 'json'
+      ? `\`\`\`json\n${JSON.stringify(breakingOnly ? { ...diff, changes: diff.changes.filter(c => c.breaking) } : diff, null, 2)}\n\`\`\``
+      : renderSpecDiffMarkdown(diff, { breakingOnly });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  }
+
+  private listProfiles(): any {
+    const lines = ['# Profiles', ''];
+
+    for (const profile of this.profiles.list()) {
+      const isDefault = profile.name === this.profiles.defaultProfile ? ' (default)' : '';
+      lines.push(`## ${profile.name}${isDefault}`);
+      if (profile.description) {
+        lines.push(profile.description);
+      }
+      lines.push(
+        `- **Base URL**: ${profile.baseUrl || this.parser.getBaseUrl()}`,
+        `- **Authentication**: ${profile.auth === 'oauth' ? 'OAuth2' : 'Access token'}`,
+        `- **Status**: ${profile.client ? 'Ready' : `Unavailable (${profile.unavailable})`}`,
+        ''
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: lines.join('\n'),
+        },
+      ],
+    };
+  }
+
+  private async callEndpoint(args: ToolCallArguments, guard: ProfileGuard): Promise<any> {
+    const { profile, client } = this.profiles.getClient(args.profile as string | undefined);
+
+    const path = args.path as string;
+    const method = (args.method as string).toUpperCase();
+
+    const endpoint = this.endpoints.find(
+      e => e.path === path && e.method === method
+    );
+
+    if (!endpoint) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Endpoint not found: ${method} ${path}\n\nTip: Use search_endpoints or list_all_endpoints to find the correct path.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (endpoint.requestContentTypes?.includes(MULTIPART_FORM_DATA)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${method} ${path} takes a file upload. Use upload_file instead.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (client.readOnly && endpoint.method !== 'GET') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Read-only mode is on: ${method} ${path} was not sent. Only GET calls are allowed (FORTNOX_READ_ONLY).`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const risk = classifyRisk(endpoint);
+    const request = {
+      pathParams: args.pathParams as Record<string, string | number> | undefined,
+      queryParams: args.queryParams as Record<string, string | number | boolean | undefined> | undefined,
+      body: args.body,
+    };
+    // What a confirmation token is bound to: the same call on the same company
+    const confirmed = { profile: profile.name, method, path, ...request };
+
+    const step = confirmationStep(risk, {
+      dryRun: args.dryRun as boolean | undefined,
+      confirmationToken: args.confirmationToken as string | undefined,
+    });
+
+    if (step === 'dry-run') {
+      return this.dryRun(client, profile.name, endpoint, risk, request, confirmed);
+    }
+    if (step === 'confirm') {
+      if (!this.confirmations.consume(args.confirmationToken as string, confirmed)) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Invalid confirmation token: it expired, was already used, or the call differs from its dry run. Call again without confirmationToken to get a new dry run.',
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    if (args.fetchAll) {
+      return guard.run(profile.name, () => this.fetchAllPages(client, profile.name, endpoint, args));
+    }
+
+    const response = await guard.run(profile.name, () => client.requestEndpoint(endpoint, {
+      ...request,
+      retry: args.retryNonIdempotent ? { retryNonIdempotent: true } : undefined,
+    }));
+
+    if (response.success && isBinaryContent(response.data)) {
+      return this.fileResult(response.data, profile.name, endpoint, args);
+    }
+
     return {
       content: [
         {
           type: 'text',
-          text: `# Schema: ${schemaName}\n\n\`\`\`json\n${JSON.stringify(schema, null, 2)}\n\`\`\``,
+          text: JSON.stringify({ profile: profile.name, ...response }, null, 2),
         },
       ],
+      isError: !response.success,
     };
   }
 
   /**
-   * Start the MCP server
+   * Show the resolved request instead of sending it, with a token that confirms it when risky
    */
-  async start(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+  private dryRun(
+    client: FortnoxAPIClient,
+    profile: string,
+    endpoint: FortnoxEndpoint,
+    risk: RiskLevel,
+    request: { pathParams?: Record<string, string | number>; queryParams?: Record<string, string | number | boolean | undefined>; body?: unknown },
+    confirmed: unknown
+  ): any {
+    const prepared = client.prepareEndpointRequest(endpoint, request);
+    if (!prepared.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ profile, dryRun: true, risk, ...prepared }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const { token, expiresAt } = this.confirmations.issue(confirmed);
+    const warnings: Record<RiskLevel, string> = {
+      'irreversible-accounting': ' It cannot be undone in accounting terms.',
+      destructive: ' It deletes data.',
+      write: '',
+      read: '',
+    };
+    const result = {
+      profile,
+      dryRun: true,
+      risk,
+      request: prepared.data,
+      confirmationToken: token,
+      expiresAt: new Date(expiresAt).toISOString(),
+      message: `Not sent.${warnings[risk]} To send it, call call_endpoint again with the same arguments and this confirmationToken.`,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async uploadFile(args: ToolCallArguments, guard: ProfileGuard): Promise<any> {
+    const { profile, client } = this.profiles.getClient(args.profile as string | undefined);
+    const path = args.path as string;
+    const uploadEndpoints = this.endpoints.filter(e => e.requestContentTypes?.includes(MULTIPART_FORM_DATA));
+    const endpoint = uploadEndpoints.find(e => e.path === path);
+
+    if (!endpoint) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${path} does not accept ${MULTIPART_FORM_DATA} uploads.\n\nEndpoints that do: ${uploadEndpoints.map(e => `${e.method} ${e.path}`).join(', ')}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (args.base64 !== undefined && !args.filename) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'filename is required when uploading base64 content',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Only files inside the upload directory may be read, since remote clients can call this tool
+    let filePath: string | undefined;
+    if (args.filePath !== undefined) {
+      const uploadDir = getUploadDir();
+      if (!uploadDir) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No upload directory configured. Set FORTNOX_UPLOAD_DIR (or uploadDir in the config file) to upload files by path, or pass the content as base64.',
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      try {
+        filePath = resolveUploadPath(args.filePath as string, uploadDir);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: error instanceof Error ? error.message : String(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    const response = await guard.run(profile.name, () => client.upload(
+      resolveEndpointPath(endpoint, args.pathParams as Record<string, string | number> | undefined),
+      {
+        file: {
+          filePath,
+          base64: args.base64 as string | undefined,
+          filename: args.filename as string | undefined,
+          mimeType: args.mimeType as string | undefined,
+        },
+        fields: args.fields as Record<string, string> | undefined,
+        queryParams: args.queryParams as Record<string, string | number | boolean | undefined> | undefined,
+      }
+    ));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ profile: profile.name, ...response }, null, 2),
+        },
+      ],
+      isError: !response.success,
+    };
+  }
+
+  /**
+   * Return a downloaded file as an embedded resource, or save it to the download directory
+   */
+  private fileResult(file: BinaryContent, profile: string, endpoint: FortnoxEndpoint, args: ToolCallArguments): any {
+    const downloadDir = getDownloadDir();
+    const mode = args.download || (downloadDir ? 'save' : 'embed');
+    const summary = { profile, success: true, mimeType: file.mimeType, filename: file.filename, size: file.size };
+
+    if (mode === 'save') {
+      if (!downloadDir) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No download directory configured. Set FORTNOX_DOWNLOAD_DIR (or downloadDir in the config file), or use download: "embed".',
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const savedTo = saveBinaryContent(file, downloadDir, endpoint.operationId);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ ...summary, savedTo }, null, 2),
+          },
+        ],
+      };
+    }
+
+    const path = resolveEndpointPath(endpoint, args.pathParams as Record<string, string | number> | undefined);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(summary, null, 2),
+        },
+        {
+          type: 'resource',
+          resource: {
+            uri: `${this.profiles.get(profile).baseUrl || this.parser.getBaseUrl(endpoint)}${path}`,
+            mimeType: file.mimeType,
+            blob: file.bytes.toString('base64'),
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Walk every page of a list endpoint and return the combined items
+   */
+  private async fetchAllPages(client: FortnoxAPIClient, profile: string, endpoint: FortnoxEndpoint, args: ToolCallArguments): Promise<any> {
+    if (endpoint.method !== 'GET') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `fetchAll only works with GET endpoints, not ${endpoint.method} ${endpoint.path}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    let path: string;
+    try {
+      path = resolveEndpointPath(endpoint, args.pathParams as Record<string, string | number> | undefined);
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: error instanceof Error ? error.message : String(error),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const maxItems = args.maxItems === undefined ? DEFAULT_FETCH_ALL_MAX_ITEMS : args.maxItems;
+    if (typeof maxItems !== 'number' || !Number.isInteger(maxItems) || maxItems < 1) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `maxItems must be a positive integer (got ${JSON.stringify(maxItems)})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const items: unknown[] = [];
+    let last: FortnoxPage<unknown> | undefined;
+
+    for await (const page of client.paginate(path, {
+      queryParams: args.queryParams as Record<string, string | number | boolean | undefined> | undefined,
+      maxItems,
+    })) {
+      items.push(...page.items);
+      last = page;
+    }
+
+    if (!last) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No pages were fetched for ${endpoint.method} ${path}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const response = last.response;
+    const result = {
+      profile,
+      success: response.success,
+      data: { items },
+      error: response.error,
+      meta: {
+        ...response.meta,
+        pagination: {
+          pages: last.page,
+          totalPages: last.totalPages,
+          totalResources: last.totalResources,
+          items: items.length,
+          maxItemsReached: items.length >= maxItems,
+          documented: detectPagination(this.parser, endpoint) !== undefined,
+        },
+      },
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+      isError: !response.success,
+    };
+  }
+
+  /**
+   * Start the MCP server on stdio, or over HTTP when http options are given
+   */
+  async start(options?: { http?: HttpTransportOptions }): Promise<void> {
+    if (options?.http) {
+      this.httpServer = new HttpTransportServer(() => this.createServer(), options.http);
+      await this.httpServer.start();
+    } else {
+      const transport = new StdioServerTransport();
+      await this.createServer().connect(transport);
+    }
+
     console.error('Fortnox API Documentation Server started successfully');
     console.error(`Loaded ${this.endpoints.length} endpoints from OpenAPI specification`);
-    console.error('Providing documentation and endpoint information (no API calls)');
-    console.error('🔌 Waiting for MCP client connections via stdio...\n');
+    if (isSpecWatchEnabled()) {
+      this.stopWatching = watchSpecSources(getSpecSources()!, () => this.reloadSpec());
+      console.error('Watching OpenAPI specification files for changes');
+    }
+    if (this.profiles.list().length > 0) {
+      const names = this.profiles.list().map(profile => profile.name).join(', ');
+      console.error(`Live API calls enabled for profiles: ${names} (default: ${this.profiles.defaultProfile})`);
+    } else {
+      console.error('Providing documentation and endpoint information (no API calls)');
+    }
+
+    if (options?.http) {
+      const { host, port, authToken } = options.http;
+      console.error(`🔌 Listening for MCP clients on http://${host}:${port}/sse (health: /health)`);
+      if (!authToken) {
+        console.error('⚠️  FORTNOX_MCP_AUTH_TOKEN is not set, any client that can reach this port can connect');
+      }
+      console.error('');
+    } else {
+      console.error('🔌 Waiting for MCP client connections via stdio...\n');
+    }
+  }
+
+  /**
+   * Stop watching specs and close all client sessions
+   */
+  async stop(): Promise<void> {
+    this.stopWatching?.();
+    if (this.httpServer) {
+      await this.httpServer.close();
+    } else {
+      await Promise.all(Array.from(this.servers).map(server => server.close()));
+    }
   }
 }
 
+/**
+ * HTTP transport settings from the command line (--http, --host, --port) or
+ * FORTNOX_MCP_TRANSPORT=http, FORTNOX_MCP_HOST, FORTNOX_MCP_PORT and FORTNOX_MCP_AUTH_TOKEN.
+ * Undefined means stdio.
+ */
+function resolveHttpOptions(argv: string[]): HttpTransportOptions | undefined {
+  const flags = parseOptions(argv);
+  const transport = flags.http === 'true' ? 'http' : process.env.FORTNOX_MCP_TRANSPORT || 'stdio';
+
+  if (transport === 'stdio') {
+    return undefined;
+  }
+  if (transport !== 'http') {
+    throw new Error(`Unknown transport: ${transport} (expected stdio or http)`);
+  }
+
+  const port = Number(flags.port || process.env.FORTNOX_MCP_PORT || DEFAULT_HTTP_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${flags.port || process.env.FORTNOX_MCP_PORT}`);
+  }
+
+  return {
+    host: flags.host || process.env.FORTNOX_MCP_HOST || DEFAULT_HTTP_HOST,
+    port,
+    authToken: process.env.FORTNOX_MCP_AUTH_TOKEN || undefined,
+  };
+}
+
 // Start server (works when run directly or by MCP client)
 const startServer = async () => {
   try {
     console.error('🚀 Starting Fortnox MCP Server...\n');
+    const http = resolveHttpOptions(process.argv.slice(2));
     const server = new FortnoxMCPServer();
-    await server.start();
-    
+    await server.start({ http });
+
     // Handle graceful shutdown
-    process.on('SIGINT', () => {
-      console.error('Received SIGINT, shutting down gracefully...');
-      process.exit(0);
-    });
-    
-    process.on('SIGTERM', () => {
-      console.error('Received SIGTERM, shutting down gracefully...');
-      process.exit(0);
-    });
-    
+    const shutdown = (signal: string) => {
+      console.error(`Received ${signal}, shutting down gracefully...`);
+      server.stop().finally(() => process.exit(0));
+    };
+
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+
   } catch (error) {
     console.error('\nFailed to initialize Fortnox MCP Server\n');
     if (error instanceof Error) {
@@ -688,4 +2083,10 @@ const startServer = async () => {
   }
 };
 
-startServer();
+// Subcommands (e.g. generate-types) run instead of the server
+const [command] = process.argv.slice(2);
+if (isCliCommand(command)) {
+  runCli(process.argv.slice(2)).then(code => process.exit(code));
+} else {
+  startServer();
+}
@@ -0,0 +1,397 @@
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { OpenAPIParser, FortnoxEndpoint, Schema } from './openapi-parser.js';
+import { RequestValidator, ValidationError } from './request-validator.js';
+import { ExampleGenerator } from './example-generator.js';
+import { declaresBinaryResponse, extensionForMimeType } from './binary-content.js';
+import { DEFAULT_PAGE_SIZE } from './pagination.js';
+
+export interface MockServerOptions {
+  host: string;
+  /** 0 picks a free port; read it from url once started */
+  port: number;
+  /** Keep created resources in memory so POST, GET, PUT and DELETE round-trip */
+  stateful?: boolean;
+}
+
+/**
+ * A collection the stateful mode stores records for, e.g. POST /3/customers with GET /3/customers/{CustomerNumber}
+ */
+interface MockResource {
+  collectionPath: string;
+  itemPath: string;
+  /** Path parameter of the item path, also the record property holding the id */
+  idParam: string;
+  /** Property of the request and response wrappers, e.g. Customer */
+  wrapKey: string;
+  recordSchema: Schema;
+  /** Property of the list response that holds the items, e.g. Customers */
+  listKey?: string;
+  listItemSchema?: Schema;
+  records: Map<string, Record<string, unknown>>;
+  nextId: number;
+}
+
+interface MockResponse {
+  status: number;
+  data?: unknown;
+}
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const MAX_MESSAGE_ERRORS = 5;
+
+/**
+ * Serves every endpoint of the spec from memory, for testing integrations without a Fortnox company
+ * Requests are validated like live calls; valid ones get an example response built from the
+ * response schema, invalid ones a fortnox_ErrorInformationWrap with a 4xx status. In stateful mode
+ * records created with POST can be read, listed, updated and deleted again.
+ */
+export class FortnoxMockServer {
+  private parser: OpenAPIParser;
+  private options: MockServerOptions;
+  private validator: RequestValidator;
+  private examples: ExampleGenerator;
+  private exampleCache = new Map<Schema, unknown>();
+  private resources = new Map<string, MockResource>();
+  private httpServer: NodeHttpServer;
+
+  constructor(parser: OpenAPIParser, options: MockServerOptions) {
+    this.parser = parser;
+    this.options = options;
+    this.validator = new RequestValidator(parser);
+    this.examples = new ExampleGenerator(parser);
+    if (options.stateful) {
+      this.findResources();
+    }
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error(`Mock request failed: ${error instanceof Error ? error.message : error}`);
+        if (!res.headersSent) {
+          sendJson(res, 500, errorInformation(500, 'Internal mock server error'));
+        }
+      });
+    });
+  }
+
+  /**
+   * Collection paths the stateful mode keeps records for
+   */
+  get statefulResources(): string[] {
+    return Array.from(new Set(Array.from(this.resources.values()).map(resource => resource.collectionPath)));
+  }
+
+  /**
+   * Base URL of the running server, with the port it was given
+   */
+  get url(): string {
+    const address = this.httpServer.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('The mock server is not running');
+    }
+    return `http://${this.options.host}:${address.port}`;
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.httpServer.close(() => resolve()));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = (req.method || 'GET').toUpperCase();
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    const match = this.parser.matchEndpoint(method, url.pathname);
+    if (!match) {
+      const allowed = METHODS.filter(other => this.parser.matchEndpoint(other, url.pathname));
+      if (allowed.length > 0) {
+        sendJson(res, 405, errorInformation(405, `${method} is not allowed for ${url.pathname} (allowed: ${allowed.join(', ')})`));
+      } else {
+        sendJson(res, 404, errorInformation(404, `No documented endpoint matches ${url.pathname}`));
+      }
+      return;
+    }
+
+    if (!req.headers.authorization) {
+      sendJson(res, 401, errorInformation(401, 'Missing Authorization header'));
+      return;
+    }
+
+    const { endpoint, pathParams } = match;
+    const raw = await readBody(req);
+    const multipart = /multipart\/form-data/i.test(req.headers['content-type'] || '');
+
+    // Uploads are passed through unchecked; every other body is JSON
+    let body: unknown;
+    if (raw.length > 0 && !multipart) {
+      try {
+        body = JSON.parse(raw.toString('utf-8'));
+      } catch {
+        sendJson(res, 400, errorInformation(400, 'Request body is not valid JSON'));
+        return;
+      }
+    }
+
+    if (body === undefined && !multipart && endpoint.requestBodySchema) {
+      sendJson(res, 400, errorInformation(400, `${endpoint.method} ${endpoint.path} requires a request body`));
+      return;
+    }
+
+    const queryParams = Object.fromEntries(url.searchParams);
+    const validation = this.validator.validateRequest(endpoint, { pathParams, queryParams, body });
+    if (!validation.valid) {
+      sendJson(res, 400, errorInformation(400, describeErrors(validation.errors)));
+      return;
+    }
+
+    const resource = this.resources.get(endpoint.path);
+    const stateful = resource && this.handleStateful(resource, endpoint, pathParams, queryParams, body);
+    if (stateful) {
+      sendJson(res, stateful.status, stateful.data);
+      return;
+    }
+
+    this.sendExample(endpoint, res);
+  }
+
+  private sendExample(endpoint: FortnoxEndpoint, res: ServerResponse): void {
+    const status = endpoint.successStatus || 200;
+    if (status === 204) {
+      res.writeHead(204).end();
+      return;
+    }
+
+    if (declaresBinaryResponse(endpoint)) {
+      const contentType = endpoint.responseContentType && !endpoint.responseContentType.includes('*')
+        ? endpoint.responseContentType
+        : 'application/octet-stream';
+      const bytes = contentType === 'application/pdf'
+        ? Buffer.from('%PDF-1.4\n% Fortnox mock file\n%%EOF\n')
+        : Buffer.from('Fortnox mock file\n');
+      res.writeHead(status, {
+        'Content-Type': contentType,
+        'Content-Length': bytes.length,
+        'Content-Disposition': `attachment; filename="${endpoint.operationId}${extensionForMimeType(contentType)}"`,
+      });
+      res.end(bytes);
+      return;
+    }
+
+    const example = endpoint.responseSchema ? this.example(endpoint.responseSchema) : undefined;
+    if (endpoint.responseContentType && !/json|\*/.test(endpoint.responseContentType)) {
+      res.writeHead(status, { 'Content-Type': endpoint.responseContentType });
+      res.end(typeof example === 'string' ? example : '');
+      return;
+    }
+    sendJson(res, status, example ?? {});
+  }
+
+  /**
+   * Serve a call against a stored collection, undefined for calls the records do not cover
+   * Actions on an item (e.g. PUT /3/invoices/{DocumentNumber}/bookkeep) have paths of their own and keep using examples.
+   */
+  private handleStateful(
+    resource: MockResource,
+    endpoint: FortnoxEndpoint,
+    pathParams: Record<string, string>,
+    queryParams: Record<string, string>,
+    body: unknown
+  ): MockResponse | undefined {
+    const status = endpoint.successStatus || 200;
+
+    if (endpoint.path === resource.collectionPath) {
+      if (endpoint.method === 'POST') {
+        return this.createRecord(resource, body, status);
+      }
+      if (endpoint.method === 'GET' && resource.listKey) {
+        return { status, data: this.listRecords(resource, endpoint, queryParams) };
+      }
+      return undefined;
+    }
+
+    const id = pathParams[resource.idParam];
+    const record = resource.records.get(id);
+    if (!record) {
+      return { status: 404, data: errorInformation(404, `${resource.wrapKey} ${id} not found`) };
+    }
+
+    switch (endpoint.method) {
+      case 'GET':
+        return { status, data: { [resource.wrapKey]: record } };
+      case 'PUT':
+      case 'PATCH': {
+        const changes = readWrapped(body, resource.wrapKey);
+        const updated = { ...record, ...changes, [resource.idParam]: record[resource.idParam] };
+        resource.records.set(id, updated);
+        return { status, data: status === 204 ? undefined : { [resource.wrapKey]: updated } };
+      }
+      case 'DELETE':
+        resource.records.delete(id);
+        return { status, data: status === 204 ? undefined : {} };
+      default:
+        return undefined;
+    }
+  }
+
+  private createRecord(resource: MockResource, body: unknown, status: number): MockResponse {
+    const fields = readWrapped(body, resource.wrapKey);
+    let id = fields[resource.idParam] !== undefined ? String(fields[resource.idParam]) : undefined;
+
+    if (id !== undefined && resource.records.has(id)) {
+      return { status: 400, data: errorInformation(400, `${resource.wrapKey} ${id} already exists`) };
+    }
+    while (id === undefined || resource.records.has(id)) {
+      id = String(resource.nextId++);
+    }
+
+    const example = this.example(resource.recordSchema);
+    const record: Record<string, unknown> = {
+      ...(isRecord(example) ? example : {}),
+      ...fields,
+      [resource.idParam]: this.idValue(resource, id),
+    };
+    resource.records.set(id, record);
+    return { status, data: { [resource.wrapKey]: record } };
+  }
+
+  private listRecords(
+    resource: MockResource,
+    endpoint: FortnoxEndpoint,
+    queryParams: Record<string, string>
+  ): Record<string, unknown> {
+    const records = Array.from(resource.records.values());
+    const limit = Number(queryParams.limit) || DEFAULT_PAGE_SIZE;
+    const totalPages = Math.max(1, Math.ceil(records.length / limit));
+    const page = Math.min(Math.max(Number(queryParams.page) || 1, 1), totalPages);
+    const itemProperties = Object.keys(resource.listItemSchema?.properties || {});
+
+    const items = records.slice((page - 1) * limit, page * limit).map(record => itemProperties.length === 0
+      ? record
+      : Object.fromEntries(itemProperties.filter(key => key in record).map(key => [key, record[key]])));
+
+    const response = this.resolve(endpoint.responseSchema);
+    return {
+      [resource.listKey as string]: items,
+      ...(response?.properties?.MetaInformation
+        ? { MetaInformation: { '@TotalResources': records.length, '@TotalPages': totalPages, '@CurrentPage': page } }
+        : {}),
+    };
+  }
+
+  /**
+   * The id as the record schema types it, e.g. a number for integer ids
+   */
+  private idValue(resource: MockResource, id: string): unknown {
+    const schema = this.resolve(resource.recordSchema.properties?.[resource.idParam]);
+    return (schema?.type === 'integer' || schema?.type === 'number') && !isNaN(Number(id)) ? Number(id) : id;
+  }
+
+  private example(schema: Schema): unknown {
+    if (!this.exampleCache.has(schema)) {
+      this.exampleCache.set(schema, this.examples.generate(schema));
+    }
+    return structuredClone(this.exampleCache.get(schema));
+  }
+
+  /**
+   * Pair every top-level POST collection with the GET of one of its items, where both wrap
+   * the record in the same property
+   */
+  private findResources(): void {
+    const endpoints = this.parser.getAllEndpoints();
+
+    for (const create of endpoints) {
+      if (create.method !== 'POST' || create.path.includes('{')) {
+        continue;
+      }
+
+      const read = endpoints.find(e => e.method === 'GET' && e.path.startsWith(create.path)
+        && /^\/\{[^}/]+\}$/.test(e.path.slice(create.path.length)));
+      const requestWrap = this.resolve(create.requestBodySchema);
+      const responseWrap = this.resolve(read?.responseSchema);
+      const wrapKeys = Object.keys(requestWrap?.properties || {});
+      const wrapKey = wrapKeys.length === 1 ? wrapKeys[0] : undefined;
+      const recordSchema = wrapKey ? this.resolve(responseWrap?.properties?.[wrapKey]) : undefined;
+      if (!read || !wrapKey || !recordSchema) {
+        continue;
+      }
+
+      // Not every list documents pagination, so take the first array of the list response
+      const list = endpoints.find(e => e.method === 'GET' && e.path === create.path);
+      const listProperties = this.resolve(list?.responseSchema)?.properties || {};
+      const listKey = Object.keys(listProperties).find(key => this.resolve(listProperties[key])?.type === 'array');
+      const listItemSchema = listKey ? this.resolve(this.resolve(listProperties[listKey])?.items) : undefined;
+
+      const resource: MockResource = {
+        collectionPath: create.path,
+        itemPath: read.path,
+        idParam: read.path.slice(create.path.length + 2, -1),
+        wrapKey,
+        recordSchema,
+        listKey,
+        listItemSchema,
+        records: new Map(),
+        nextId: 1,
+      };
+      this.resources.set(resource.collectionPath, resource);
+      this.resources.set(resource.itemPath, resource);
+    }
+  }
+
+  private resolve(schema: Schema | undefined): Schema | undefined {
+    return schema?.$ref ? this.parser.resolveSchemaRef(schema.$ref) : schema;
+  }
+}
+
+/**
+ * The error body Fortnox documents for failed calls (fortnox_ErrorInformationWrap)
+ * Code carries the HTTP status, since the mock has no Fortnox error codes.
+ */
+export function errorInformation(status: number, message: string): { ErrorInformation: { Error: number; Message: string; Code: number } } {
+  return { ErrorInformation: { Error: 1, Message: message, Code: status } };
+}
+
+function describeErrors(errors: ValidationError[]): string {
+  const listed = errors.slice(0, MAX_MESSAGE_ERRORS).map(error => `${error.pointer}: ${error.message}`);
+  const more = errors.length > MAX_MESSAGE_ERRORS ? ` (and ${errors.length - MAX_MESSAGE_ERRORS} more)` : '';
+  return `Invalid request: ${listed.join('; ')}${more}`;
+}
+
+/**
+ * The fields of a wrapped body such as { "Customer": { ... } }
+ */
+function readWrapped(body: unknown, wrapKey: string): Record<string, unknown> {
+  const fields = isRecord(body) ? body[wrapKey] : undefined;
+  return isRecord(fields) ? fields : {};
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown): void {
+  if (data === undefined) {
+    res.writeHead(status).end();
+    return;
+  }
+  const body = JSON.stringify(data);
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) });
+  res.end(body);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,248 @@
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { homedir } from 'os';
+
+export const FORTNOX_AUTHORIZATION_URL = 'https://apps.fortnox.se/oauth-v1/auth';
+export const FORTNOX_TOKEN_URL = 'https://apps.fortnox.se/oauth-v1/token';
+export const DEFAULT_TOKEN_FILE = join(homedir(), '.fortnox-doc-mcp', 'tokens.json');
+
+// Refresh a little before expiry so a token does not run out while a request is in flight
+const REFRESH_MARGIN_MS = 60_000;
+
+export interface OAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  /** Must match the redirect URI registered for the integration; needed for the authorization code flow */
+  redirectUri?: string;
+  /** Token endpoint (default: Fortnox' token endpoint) */
+  tokenUrl?: string;
+  /** Consent page users are sent to (default: Fortnox' authorization endpoint) */
+  authorizationUrl?: string;
+  /** File the tokens are kept in (default: ~/.fortnox-doc-mcp/tokens.json), false to keep them in memory only */
+  tokenFile?: string | false;
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  /** When the access token expires, in epoch milliseconds; unknown for tokens passed in directly */
+  expiresAt?: number;
+  scope?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+/**
+ * OAuth2 tokens for the Fortnox API
+ * Exchanges authorization codes, refreshes the access token shortly before it expires or after
+ * the API rejected it, and persists every new token pair, since Fortnox refresh tokens are single-use.
+ */
+export class FortnoxOAuth {
+  private config: OAuthConfig;
+  private tokens: OAuthTokens | undefined;
+  private refreshing: Promise<OAuthTokens> | null = null;
+
+  /**
+   * Tokens in the token file take precedence over initialTokens, which may already have been rotated
+   */
+  constructor(config: OAuthConfig, initialTokens?: OAuthTokens) {
+    this.config = config;
+    const file = this.tokenFile;
+    this.tokens = (file && readTokenFile(file)) || initialTokens;
+  }
+
+  get clientId(): string {
+    return this.config.clientId;
+  }
+
+  get tokenFile(): string | undefined {
+    return this.config.tokenFile === false ? undefined : resolve(this.config.tokenFile || DEFAULT_TOKEN_FILE);
+  }
+
+  hasTokens(): boolean {
+    return this.tokens !== undefined;
+  }
+
+  /**
+   * URL of the consent page that redirects back to redirectUri with ?code=...&state=...
+   */
+  getAuthorizationUrl(options: { scope: string; state?: string }): string {
+    const url = new URL(this.config.authorizationUrl || FORTNOX_AUTHORIZATION_URL);
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', this.requireRedirectUri());
+    url.searchParams.set('scope', options.scope);
+    url.searchParams.set('state', options.state || '');
+    url.searchParams.set('access_type', 'offline');
+    url.searchParams.set('response_type', 'code');
+    return url.toString();
+  }
+
+  /**
+   * Trade an authorization code for a token pair and store it
+   */
+  async exchangeCode(code: string): Promise<OAuthTokens> {
+    return this.store(await this.requestTokens({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.requireRedirectUri(),
+    }));
+  }
+
+  /**
+   * A valid access token, refreshed first when it is about to expire
+   */
+  async getAccessToken(): Promise<string> {
+    if (!this.tokens) {
+      throw new Error('No OAuth tokens available. Run "fortnox-doc-mcp auth-url" and "fortnox-doc-mcp auth-exchange --code <code>" first.');
+    }
+
+    const expiring = this.tokens.expiresAt !== undefined && Date.now() >= this.tokens.expiresAt - REFRESH_MARGIN_MS;
+    if (expiring && this.tokens.refreshToken) {
+      return (await this.refresh()).accessToken;
+    }
+    return this.tokens.accessToken;
+  }
+
+  /**
+   * Get a new access token with the refresh token
+   * Concurrent calls share one refresh. Pass the access token the API rejected to skip the
+   * refresh when another call has already replaced it.
+   */
+  async refresh(rejectedAccessToken?: string): Promise<OAuthTokens> {
+    if (this.refreshing) {
+      return this.refreshing;
+    }
+    if (rejectedAccessToken && this.tokens && this.tokens.accessToken !== rejectedAccessToken) {
+      return this.tokens;
+    }
+
+    const refreshToken = this.tokens?.refreshToken;
+    if (!refreshToken) {
+      throw new Error('Cannot refresh the access token: no refresh token available');
+    }
+
+    this.refreshing = this.requestTokens({ grant_type: 'refresh_token', refresh_token: refreshToken })
+      .then(response => this.store(response))
+      .finally(() => {
+        this.refreshing = null;
+      });
+    return this.refreshing;
+  }
+
+  private store(response: TokenResponse): OAuthTokens {
+    this.tokens = {
+      accessToken: response.access_token,
+      // Keep the current refresh token when the server did not rotate it
+      refreshToken: response.refresh_token || this.tokens?.refreshToken,
+      expiresAt: response.expires_in !== undefined ? Date.now() + response.expires_in * 1000 : undefined,
+      scope: response.scope,
+    };
+
+    const file = this.tokenFile;
+    if (file) {
+      writeTokenFile(file, this.tokens);
+    }
+    return this.tokens;
+  }
+
+  private async requestTokens(params: Record<string, string>): Promise<TokenResponse> {
+    const credentials = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64');
+    const response = await fetch(this.config.tokenUrl || FORTNOX_TOKEN_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+      },
+      body: new URLSearchParams(params).toString(),
+    });
+
+    const text = await response.text();
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = undefined;
+    }
+
+    if (!response.ok || !data?.access_token) {
+      const reason = data?.error_description || data?.error || text || response.statusText;
+      throw new Error(`OAuth token request failed (HTTP ${response.status}): ${reason}`);
+    }
+    return data as TokenResponse;
+  }
+
+  private requireRedirectUri(): string {
+    if (!this.config.redirectUri) {
+      throw new Error('FORTNOX_REDIRECT_URI is required for the authorization code flow');
+    }
+    return this.config.redirectUri;
+  }
+}
+
+/**
+ * Read stored tokens, undefined when the file does not exist
+ * Tightens the permissions of a file that other users can read.
+ */
+export function readTokenFile(file: string): OAuthTokens | undefined {
+  if (!existsSync(file)) {
+    return undefined;
+  }
+
+  if (process.platform !== 'win32' && (statSync(file).mode & 0o077) !== 0) {
+    chmodSync(file, 0o600);
+  }
+
+  try {
+    const tokens = JSON.parse(readFileSync(file, 'utf-8')) as OAuthTokens;
+    return tokens.accessToken ? tokens : undefined;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid token file ${file}: ${message}`);
+  }
+}
+
+/**
+ * Write tokens readable by the current user only, replacing the file atomically
+ */
+export function writeTokenFile(file: string, tokens: OAuthTokens): void {
+  mkdirSync(dirname(file), { recursive: true, mode: 0o700 });
+  const temporary = `${file}.${process.pid}.tmp`;
+  writeFileSync(temporary, JSON.stringify(tokens, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  renameSync(temporary, file);
+}
+
+/**
+ * Create the OAuth client from environment variables, null unless FORTNOX_CLIENT_ID and FORTNOX_CLIENT_SECRET are set
+ * FORTNOX_ACCESS_TOKEN and FORTNOX_REFRESH_TOKEN seed the tokens when the token file is empty.
+ */
+export function createFortnoxOAuth(): FortnoxOAuth | null {
+  const clientId = process.env.FORTNOX_CLIENT_ID;
+  const clientSecret = process.env.FORTNOX_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    return null;
+  }
+
+  const accessToken = process.env.FORTNOX_ACCESS_TOKEN;
+  const refreshToken = process.env.FORTNOX_REFRESH_TOKEN;
+
+  return new FortnoxOAuth(
+    {
+      clientId,
+      clientSecret,
+      redirectUri: process.env.FORTNOX_REDIRECT_URI,
+      tokenUrl: process.env.FORTNOX_TOKEN_URL,
+      tokenFile: process.env.FORTNOX_TOKEN_FILE,
+    },
+    accessToken || refreshToken
+      // An empty access token with a refresh token counts as expired, so the first call refreshes it
+      ? { accessToken: accessToken || '', refreshToken, expiresAt: accessToken ? undefined : 0 }
+      : undefined
+  );
+}
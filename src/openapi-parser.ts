@@ -1,6 +1,6 @@
-import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { getSpecSources, loadSpecs, readSpecFile } from './spec-loader.js';
 
 export interface OpenAPISpec {
   openapi: string;
@@ -25,6 +25,8 @@ export interface PathItem {
   put?: Operation;
   delete?: Operation;
   patch?: Operation;
+  /** Overrides the spec servers, e.g. for endpoints merged in from another spec */
+  servers?: OpenAPISpec['servers'];
 }
 
 export interface Operation {
@@ -35,6 +37,7 @@ export interface Operation {
   parameters?: Parameter[];
   requestBody?: RequestBody;
   responses: Record<string, Response>;
+  deprecated?: boolean;
 }
 
 export interface Parameter {
@@ -71,6 +74,7 @@ export interface Schema {
   maximum?: number;
   pattern?: string;
   additionalProperties?: Schema | boolean;
+  example?: unknown;
 }
 
 export interface FortnoxEndpoint {
@@ -81,23 +85,73 @@ export interface FortnoxEndpoint {
   description?: string;
   parameters: Parameter[];
   requestBodySchema?: Schema;
+  /** Every media type the request body may be sent as, e.g. multipart/form-data for uploads */
+  requestContentTypes?: string[];
   responseSchema?: Schema;
+  /** Media type of the success response as declared in the spec, e.g. application/pdf */
+  responseContentType?: string;
+  /** First 2xx status the spec documents, e.g. 201 for creates and 204 for calls without content */
+  successStatus?: number;
   tags?: string[];
+  deprecated?: boolean;
+}
+
+export type SchemaUsageLocation = 'parameter' | 'request' | 'response';
+
+export interface SchemaUsage {
+  endpoint: FortnoxEndpoint;
+  /** Where the endpoint uses the schema */
+  locations: SchemaUsageLocation[];
+  /** True when the endpoint references the schema itself rather than through another schema */
+  direct: boolean;
+}
+
+interface SchemaDependencyGraph {
+  /** Schemas each schema references directly */
+  dependsOn: Map<string, string[]>;
+  /** Schemas that reference each schema directly */
+  usedBy: Map<string, string[]>;
+}
+
+interface EndpointSchemaRefs {
+  endpoint: FortnoxEndpoint;
+  direct: Map<SchemaUsageLocation, Set<string>>;
+  all: Map<SchemaUsageLocation, Set<string>>;
+}
+
+const DEFAULT_DEREFERENCE_DEPTH = 10;
+
+/**
+ * Extract the schema name from a $ref like "#/components/schemas/SchemaName"
+ */
+export function schemaNameFromRef(ref: string): string {
+  return ref.replace('#/components/schemas/', '');
 }
 
 export class OpenAPIParser {
   private spec: OpenAPISpec;
+  private dependencyGraph?: SchemaDependencyGraph;
+  private endpointRefs?: EndpointSchemaRefs[];
 
-  constructor(specPath: string) {
-    const specContent = readFileSync(specPath, 'utf-8');
-    this.spec = JSON.parse(specContent);
+  /**
+   * Takes the path of a JSON or YAML spec, or an already loaded spec
+   */
+  constructor(source: string | OpenAPISpec) {
+    this.spec = typeof source === 'string' ? readSpecFile(source) : source;
   }
 
   getSpec(): OpenAPISpec {
     return this.spec;
   }
 
-  getBaseUrl(): string {
+  /**
+   * Base URL of the spec, or of one endpoint when its path item has its own servers
+   */
+  getBaseUrl(endpoint?: FortnoxEndpoint): string {
+    const pathServers = endpoint ? this.spec.paths[endpoint.path]?.servers : undefined;
+    if (pathServers && pathServers.length > 0) {
+      return pathServers[0].url;
+    }
     if (!this.spec.servers || this.spec.servers.length === 0) {
       throw new Error('No servers defined in OpenAPI spec');
     }
@@ -127,6 +181,59 @@ export class OpenAPIParser {
     );
   }
 
+  /**
+   * Find the documented endpoint for a concrete request path
+   * e.g. GET /3/invoices/1001 -> GET /3/invoices/{DocumentNumber} with { DocumentNumber: '1001' }
+   * Literal path segments win over path parameters when several templates match.
+   */
+  matchEndpoint(
+    method: string,
+    requestPath: string
+  ): { endpoint: FortnoxEndpoint; pathParams: Record<string, string> } | undefined {
+    const upperMethod = method.toUpperCase();
+    const pathOnly = requestPath.split('?')[0];
+    const segments = (pathOnly.startsWith('/') ? pathOnly : `/${pathOnly}`).split('/');
+
+    let best: { endpoint: FortnoxEndpoint; pathParams: Record<string, string>; literals: number } | undefined;
+
+    for (const endpoint of this.getAllEndpoints()) {
+      if (endpoint.method !== upperMethod) {
+        continue;
+      }
+
+      const templateSegments = endpoint.path.split('/');
+      if (templateSegments.length !== segments.length) {
+        continue;
+      }
+
+      const pathParams: Record<string, string> = {};
+      let literals = 0;
+      let matches = true;
+
+      for (let i = 0; i < templateSegments.length; i++) {
+        const param = templateSegments[i].match(/^\{([^}]+)\}$/);
+        if (param) {
+          if (segments[i] === '') {
+            matches = false;
+            break;
+          }
+          pathParams[param[1]] = decodeURIComponent(segments[i]);
+        } else if (templateSegments[i] === segments[i]) {
+          literals++;
+        } else {
+          matches = false;
+          break;
+        }
+      }
+
+      if (matches && (!best || literals > best.literals)) {
+        best = { endpoint, pathParams, literals };
+      }
+    }
+
+    return best ? { endpoint: best.endpoint, pathParams: best.pathParams } : undefined;
+  }
+
   private parseOperation(
     path: string,
     method: string,
@@ -140,21 +247,27 @@ export class OpenAPIParser {
       description: operation.description,
       parameters: operation.parameters || [],
       tags: operation.tags,
+      deprecated: operation.deprecated,
     };
 
     // Parse request body schema
     if (operation.requestBody) {
       const content = operation.requestBody.content;
-      const contentType = Object.keys(content)[0];
+      endpoint.requestContentTypes = Object.keys(content);
+      const contentType = endpoint.requestContentTypes[0];
       if (contentType && content[contentType]?.schema) {
         endpoint.requestBodySchema = content[contentType].schema;
       }
     }
 
+    const successStatus = Object.keys(operation.responses).find(status => /^2\d\d$/.test(status));
+    endpoint.successStatus = successStatus ? Number(successStatus) : undefined;
+
     // Parse response schema (typically the 200 response)
     const successResponse = operation.responses['200'] || operation.responses['201'];
     if (successResponse?.content) {
       const contentType = Object.keys(successResponse.content)[0];
+      endpoint.responseContentType = contentType;
       if (contentType && successResponse.content[contentType]?.schema) {
         endpoint.responseSchema = successResponse.content[contentType].schema;
       }
@@ -169,10 +282,156 @@ export class OpenAPIParser {
       return undefined;
     }
 
-    const schemaName = ref.replace('#/components/schemas/', '');
+    const schemaName = schemaNameFromRef(ref);
     return this.spec.components?.schemas?.[schemaName];
   }
 
+  /**
+   * Recursively replace $refs with the schemas they point to
+   * Circular references and references beyond maxDepth are left as $refs with a note,
+   * so the result is always finite.
+   */
+  dereferenceSchema(schema: Schema, options?: { maxDepth?: number }): Schema {
+    const maxDepth = options?.maxDepth ?? DEFAULT_DEREFERENCE_DEPTH;
+    return this.dereference(schema, maxDepth, []);
+  }
+
+  private dereference(schema: Schema, remainingDepth: number, refStack: string[]): Schema {
+    if (schema.$ref) {
+      const ref = schema.$ref;
+      if (refStack.includes(ref)) {
+        return { $ref: ref, description: `Circular reference to ${schemaNameFromRef(ref)} (not expanded)` };
+      }
+      if (remainingDepth <= 0) {
+        return { $ref: ref, description: `${schemaNameFromRef(ref)} (not expanded, depth limit reached)` };
+      }
+
+      const resolved = this.resolveSchemaRef(ref);
+      if (!resolved) {
+        return { ...schema };
+      }
+      return this.dereference(resolved, remainingDepth - 1, [...refStack, ref]);
+    }
+
+    const result: Schema = { ...schema };
+
+    if (schema.properties) {
+      result.properties = {};
+      for (const [name, property] of Object.entries(schema.properties)) {
+        result.properties[name] = this.dereference(property, remainingDepth, refStack);
+      }
+    }
+
+    if (schema.items) {
+      result.items = this.dereference(schema.items, remainingDepth, refStack);
+    }
+
+    if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      result.additionalProperties = this.dereference(schema.additionalProperties, remainingDepth, refStack);
+    }
+
+    return result;
+  }
+
+  /**
+   * Collect the names of all component schemas a schema references,
+   * following $refs transitively
+   */
+  getReferencedSchemaNames(schema: Schema): string[] {
+    const found = new Set<string>();
+    for (const name of collectDirectRefs(schema)) {
+      found.add(name);
+      this.getSchemaDependencies(name, { transitive: true }).forEach(dependency => found.add(dependency));
+    }
+    return Array.from(found);
+  }
+
+  /**
+   * Schemas that a schema depends on (references), directly or transitively
+   */
+  getSchemaDependencies(schemaName: string, options?: { transitive?: boolean }): string[] {
+    const { dependsOn } = this.getDependencyGraph();
+    return options?.transitive
+      ? walkGraph(schemaName, dependsOn)
+      : [...(dependsOn.get(schemaName) || [])];
+  }
+
+  /**
+   * Schemas that depend on (reference) a schema, directly or transitively
+   */
+  getSchemaDependents(schemaName: string, options?: { transitive?: boolean }): string[] {
+    const { usedBy } = this.getDependencyGraph();
+    return options?.transitive
+      ? walkGraph(schemaName, usedBy)
+      : [...(usedBy.get(schemaName) || [])];
+  }
+
+  /**
+   * Endpoints whose parameters, request body or response use a schema, directly or transitively
+   */
+  getSchemaUsages(schemaName: string): SchemaUsage[] {
+    const usages: SchemaUsage[] = [];
+
+    for (const refs of this.getEndpointRefs()) {
+      const locations = Array.from(refs.all.entries())
+        .filter(([, names]) => names.has(schemaName))
+        .map(([location]) => location);
+
+      if (locations.length > 0) {
+        usages.push({
+          endpoint: refs.endpoint,
+          locations,
+          direct: Array.from(refs.direct.values()).some(names => names.has(schemaName)),
+        });
+      }
+    }
+
+    return usages;
+  }
+
+  private getDependencyGraph(): SchemaDependencyGraph {
+    if (!this.dependencyGraph) {
+      const dependsOn = new Map<string, string[]>();
+      const usedBy = new Map<string, string[]>();
+
+      for (const [name, schema] of Object.entries(this.spec.components?.schemas || {})) {
+        const dependencies = collectDirectRefs(schema);
+        dependsOn.set(name, dependencies);
+        for (const dependency of dependencies) {
+          if (!usedBy.has(dependency)) {
+            usedBy.set(dependency, []);
+          }
+          usedBy.get(dependency)!.push(name);
+        }
+      }
+
+      this.dependencyGraph = { dependsOn, usedBy };
+    }
+    return this.dependencyGraph;
+  }
+
+  private getEndpointRefs(): EndpointSchemaRefs[] {
+    if (!this.endpointRefs) {
+      this.endpointRefs = this.getAllEndpoints().map(endpoint => {
+        const roots: Array<[SchemaUsageLocation, Schema[]]> = [
+          ['parameter', endpoint.parameters.map(p => p.schema).filter(Boolean)],
+          ['request', endpoint.requestBodySchema ? [endpoint.requestBodySchema] : []],
+          ['response', endpoint.responseSchema ? [endpoint.responseSchema] : []],
+        ];
+
+        const direct = new Map<SchemaUsageLocation, Set<string>>();
+        const all = new Map<SchemaUsageLocation, Set<string>>();
+        for (const [location, schemas] of roots) {
+          direct.set(location, new Set(schemas.flatMap(collectDirectRefs)));
+          all.set(location, new Set(schemas.flatMap(schema => this.getReferencedSchemaNames(schema))));
+        }
+
+        return { endpoint, direct, all };
+      });
+    }
+    return this.endpointRefs;
+  }
+
   getSchemaDescription(schema: Schema): string {
     if (schema.$ref) {
       const resolved = this.resolveSchemaRef(schema.$ref);
@@ -196,18 +455,81 @@ export class OpenAPIParser {
   }
 }
 
+/**
+ * Names of the component schemas referenced by a schema without following the $refs
+ */
+function collectDirectRefs(schema: Schema): string[] {
+  const found = new Set<string>();
+  const visit = (current: Schema | undefined): void => {
+    if (!current) {
+      return;
+    }
+    if (current.$ref) {
+      found.add(schemaNameFromRef(current.$ref));
+      return;
+    }
+    Object.values(current.properties || {}).forEach(visit);
+    visit(current.items);
+    if (typeof current.additionalProperties === 'object') {
+      visit(current.additionalProperties);
+    }
+  };
+
+  visit(schema);
+  return Array.from(found);
+}
+
+/**
+ * Every node reachable from start along the given edges (start itself only if part of a cycle)
+ */
+function walkGraph(start: string, edges: Map<string, string[]>): string[] {
+  const visited = new Set<string>();
+  const queue = [...(edges.get(start) || [])];
+
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    if (visited.has(name)) {
+      continue;
+    }
+    visited.add(name);
+    queue.push(...(edges.get(name) || []));
+  }
+
+  return Array.from(visited);
+}
+
 // Singleton instance
 let parser: OpenAPIParser | null = null;
 
+/**
+ * The parser for the configured specs (FORTNOX_OPENAPI_SPEC or the config file),
+ * falling back to the bundled openapi.json
+ */
 export function getOpenAPIParser(): OpenAPIParser {
   if (!parser) {
-    // Get the directory where this module is located
-    const __filename = fileURLToPath(import.meta.url);
-    const __dirname = dirname(__filename);
-    
-    // Load the OpenAPI spec from the project root (one level up from dist/)
-    const specPath = join(__dirname, '..', 'openapi.json');
-    parser = new OpenAPIParser(specPath);
+    parser = createOpenAPIParser();
   }
   return parser;
 }
+
+/**
+ * Replace the shared parser, once everything built on the new one is ready
+ */
+export function setOpenAPIParser(next: OpenAPIParser): void {
+  parser = next;
+}
+
+/**
+ * Load the configured specs into a new parser, leaving the shared one in place
+ */
+export function createOpenAPIParser(): OpenAPIParser {
+  const sources = getSpecSources();
+  if (sources) {
+    return new OpenAPIParser(loadSpecs(sources));
+  }
+
+  // Load the bundled OpenAPI spec from the project root (one level up from dist/)
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = dirname(__filename);
+  return new OpenAPIParser(join(__dirname, '..', 'openapi.json'));
+}
@@ -0,0 +1,94 @@
+import { OpenAPIParser, FortnoxEndpoint, Schema } from './openapi-parser.js';
+
+export const DEFAULT_PAGE_SIZE = 100;
+/** Fortnox rejects a larger limit */
+export const MAX_PAGE_SIZE = 500;
+
+const PAGE_PARAM = 'page';
+const LIMIT_PARAM = 'limit';
+const META_INFORMATION = 'MetaInformation';
+
+export interface PaginationSupport {
+  pageParam: string;
+  limitParam: string;
+  /** Property of the response that holds the items, e.g. Currencies */
+  itemsKey?: string;
+  /** Documented through page/limit query parameters, or only through MetaInformation in the response */
+  detectedFrom: 'parameters' | 'response';
+}
+
+export interface PageInfo {
+  currentPage?: number;
+  totalPages?: number;
+  totalResources?: number;
+}
+
+/**
+ * Whether a GET endpoint is paginated, judging by its query parameters and response schema
+ * Fortnox list endpoints take ?page=&limit= and answer with MetaInformation next to the items.
+ */
+export function detectPagination(parser: OpenAPIParser, endpoint: FortnoxEndpoint): PaginationSupport | undefined {
+  if (endpoint.method !== 'GET') {
+    return undefined;
+  }
+
+  const queryParams = endpoint.parameters.filter(p => p.in === 'query');
+  const pageParam = queryParams.find(p => p.name.toLowerCase() === PAGE_PARAM);
+  const limitParam = queryParams.find(p => p.name.toLowerCase() === LIMIT_PARAM);
+
+  const response = resolve(parser, endpoint.responseSchema);
+  const properties = response?.properties || {};
+  const itemsKey = Object.keys(properties).find(key => resolve(parser, properties[key])?.type === 'array');
+
+  if (!pageParam && !properties[META_INFORMATION]) {
+    return undefined;
+  }
+
+  return {
+    pageParam: pageParam?.name || PAGE_PARAM,
+    limitParam: limitParam?.name || LIMIT_PARAM,
+    itemsKey,
+    detectedFrom: pageParam ? 'parameters' : 'response',
+  };
+}
+
+/**
+ * Read the page counters from a response's MetaInformation, empty when there is none
+ */
+export function readPageInfo(data: unknown): PageInfo {
+  const meta = isRecord(data) ? data[META_INFORMATION] : undefined;
+  if (!isRecord(meta)) {
+    return {};
+  }
+
+  return {
+    currentPage: toNumber(meta['@CurrentPage']),
+    totalPages: toNumber(meta['@TotalPages']),
+    totalResources: toNumber(meta['@TotalResources']),
+  };
+}
+
+/**
+ * Items of a list response: the named property, or else the first array in it
+ */
+export function readPageItems(data: unknown, itemsKey?: string): unknown[] {
+  if (!isRecord(data)) {
+    return [];
+  }
+
+  const items = itemsKey ? data[itemsKey] : Object.values(data).find(Array.isArray);
+  return Array.isArray(items) ? items : [];
+}
+
+function resolve(parser: OpenAPIParser, schema: Schema | undefined): Schema | undefined {
+  return schema?.$ref ? parser.resolveSchemaRef(schema.$ref) : schema;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  return value === undefined || value === null || Number.isNaN(number) ? undefined : number;
+}
@@ -0,0 +1,176 @@
+import { dirname, join } from 'path';
+import { FortnoxMCPConfig, ProfileConfig, loadConfig } from './config.js';
+import { FortnoxAPIClient, createFortnoxClient, readClientSettings } from './fortnox-client.js';
+import { FortnoxOAuth, DEFAULT_TOKEN_FILE, createFortnoxOAuth } from './oauth.js';
+import { parseRateLimits } from './rate-limiter.js';
+
+/** Name of the profile built from the FORTNOX_* environment variables */
+export const DEFAULT_PROFILE = 'default';
+
+export interface Profile {
+  name: string;
+  description?: string;
+  baseUrl?: string;
+  auth: 'oauth' | 'access-token';
+  oauth?: FortnoxOAuth;
+  /** null until the profile has a token to call the API with */
+  client: FortnoxAPIClient | null;
+  /** Why client is null */
+  unavailable?: string;
+}
+
+/**
+ * The Fortnox companies live calls can be made against
+ * Profiles come from the config file; FORTNOX_ACCESS_TOKEN or FORTNOX_CLIENT_ID in the environment
+ * add a profile named "default" unless the config file defines one.
+ */
+export class ProfileRegistry {
+  private profiles = new Map<string, Profile>();
+  readonly defaultProfile: string | undefined;
+
+  constructor(config: FortnoxMCPConfig) {
+    for (const [name, profile] of Object.entries(config.profiles || {})) {
+      this.profiles.set(name, createProfile(name, profile));
+    }
+
+    if (!this.profiles.has(DEFAULT_PROFILE) && (process.env.FORTNOX_ACCESS_TOKEN || process.env.FORTNOX_CLIENT_ID)) {
+      this.profiles.set(DEFAULT_PROFILE, createEnvProfile());
+    }
+
+    const defaultProfile = config.defaultProfile || process.env.FORTNOX_PROFILE;
+    if (defaultProfile && !this.profiles.has(defaultProfile)) {
+      throw new Error(`Default profile "${defaultProfile}" is not defined`);
+    }
+    this.defaultProfile = defaultProfile
+      || (this.profiles.has(DEFAULT_PROFILE) ? DEFAULT_PROFILE : this.profiles.keys().next().value);
+  }
+
+  list(): Profile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  /**
+   * A profile by name, the default profile when name is omitted
+   */
+  get(name?: string): Profile {
+    const profileName = name || this.defaultProfile;
+    const profile = profileName ? this.profiles.get(profileName) : undefined;
+    if (!profile) {
+      const known = Array.from(this.profiles.keys());
+      throw new Error(name
+        ? `Unknown profile: ${name} (known profiles: ${known.join(', ') || 'none'})`
+        : 'No profiles configured');
+    }
+    return profile;
+  }
+
+  /**
+   * The client of a profile, throwing when the profile has no token yet
+   */
+  getClient(name?: string): { profile: Profile; client: FortnoxAPIClient } {
+    const profile = this.get(name);
+    if (!profile.client) {
+      throw new Error(`Profile "${profile.name}" cannot make API calls: ${profile.unavailable}`);
+    }
+    return { profile, client: profile.client };
+  }
+}
+
+/**
+ * Load the profiles of the config file and the environment
+ */
+export function loadProfiles(): ProfileRegistry {
+  return new ProfileRegistry(loadConfig());
+}
+
+/**
+ * Rejects live calls to one profile while calls to another profile are still running in the same session,
+ * so a batch of parallel calls never mixes companies
+ */
+export class ProfileGuard {
+  private active: string | undefined;
+  private inFlight = 0;
+
+  async run<T>(profile: string, call: () => Promise<T>): Promise<T> {
+    if (this.inFlight > 0 && this.active !== profile) {
+      throw new Error(`Cannot call profile "${profile}" while calls to profile "${this.active}" are still running; wait for them to finish`);
+    }
+
+    this.active = profile;
+    this.inFlight++;
+    try {
+      return await call();
+    } finally {
+      this.inFlight--;
+    }
+  }
+}
+
+/**
+ * The default profile, described by what the FORTNOX_* variables actually set up
+ */
+function createEnvProfile(): Profile {
+  const base = { name: DEFAULT_PROFILE, description: 'From FORTNOX_* environment variables', baseUrl: process.env.FORTNOX_BASE_URL };
+
+  const oauth = createFortnoxOAuth();
+  if (oauth) {
+    return oauth.hasTokens()
+      ? { ...base, auth: 'oauth', oauth, client: createFortnoxClient(oauth) }
+      : { ...base, auth: 'oauth', oauth, client: null, unavailable: 'No OAuth tokens yet, run auth-exchange' };
+  }
+
+  // Without FORTNOX_CLIENT_SECRET the client falls back to FORTNOX_ACCESS_TOKEN
+  const client = createFortnoxClient(null);
+  if (client) {
+    return { ...base, auth: 'access-token', client };
+  }
+  return { ...base, auth: 'oauth', client: null, unavailable: 'FORTNOX_CLIENT_ID is set but FORTNOX_CLIENT_SECRET is not' };
+}
+
+function createProfile(name: string, config: ProfileConfig): Profile {
+  const base = { name, description: config.description, baseUrl: config.baseUrl };
+  const settings = {
+    ...readClientSettings(),
+    baseUrl: config.baseUrl,
+    // Every profile is a separate company with its own limits, even when two share an OAuth client
+    rateLimitKey: `profile:${name}`,
+    ...(config.rateLimits ? { rateLimits: parseRateLimits(config.rateLimits) } : {}),
+  };
+
+  if (config.clientId) {
+    const clientSecret = readEnv(config.clientSecretEnv);
+    if (!clientSecret) {
+      return { ...base, auth: 'oauth', client: null, unavailable: `clientSecretEnv ${describeEnv(config.clientSecretEnv)} is not set` };
+    }
+
+    const refreshToken = readEnv(config.refreshTokenEnv);
+    const oauth = new FortnoxOAuth(
+      {
+        clientId: config.clientId,
+        clientSecret,
+        redirectUri: config.redirectUri,
+        tokenUrl: config.tokenUrl,
+        tokenFile: config.tokenFile || join(dirname(DEFAULT_TOKEN_FILE), `tokens-${name}.json`),
+      },
+      refreshToken ? { accessToken: '', refreshToken, expiresAt: 0 } : undefined
+    );
+
+    return oauth.hasTokens()
+      ? { ...base, auth: 'oauth', oauth, client: new FortnoxAPIClient({ ...settings, oauth }) }
+      : { ...base, auth: 'oauth', oauth, client: null, unavailable: `No OAuth tokens yet, run auth-exchange --profile ${name}` };
+  }
+
+  const accessToken = readEnv(config.accessTokenEnv);
+  if (!accessToken) {
+    return { ...base, auth: 'access-token', client: null, unavailable: `accessTokenEnv ${describeEnv(config.accessTokenEnv)} is not set` };
+  }
+  return { ...base, auth: 'access-token', client: new FortnoxAPIClient({ ...settings, accessToken }) };
+}
+
+function readEnv(name: string | undefined): string | undefined {
+  return name ? process.env[name] : undefined;
+}
+
+function describeEnv(name: string | undefined): string {
+  return name ? `(${name})` : '(not configured)';
+}
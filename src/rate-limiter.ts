@@ -0,0 +1,149 @@
+export interface RateLimitWindow {
+  /** Requests allowed per interval */
+  limit: number;
+  intervalMs: number;
+}
+
+/**
+ * Fortnox allows 25 requests per 5 seconds and 300 requests per minute per access token
+ */
+export const FORTNOX_RATE_LIMITS: RateLimitWindow[] = [
+  { limit: 25, intervalMs: 5_000 },
+  { limit: 300, intervalMs: 60_000 },
+];
+
+/**
+ * Time source for the limiter; tests pass a fake clock whose sleep advances now()
+ */
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+export interface RateLimitMetadata {
+  /** Calls for the same access token that were queued ahead of this one */
+  queueDepth: number;
+  /** Time spent waiting for a free slot */
+  waitMs: number;
+}
+
+interface Bucket {
+  window: RateLimitWindow;
+  tokens: number;
+  updatedAt: number;
+}
+
+interface KeyState {
+  buckets: Bucket[];
+  /** Settles when the last queued call has taken its token */
+  tail: Promise<void>;
+  pending: number;
+}
+
+/**
+ * Token bucket rate limiter with one set of buckets per key (access token)
+ * Every window is a bucket of `limit` tokens refilled evenly over `intervalMs`; a call
+ * needs a token from each bucket. Calls that would exceed a window wait in FIFO order.
+ */
+export class RateLimiter {
+  private windows: RateLimitWindow[];
+  private clock: Clock;
+  private states = new Map<string, KeyState>();
+
+  constructor(options?: { windows?: RateLimitWindow[]; clock?: Clock }) {
+    this.windows = options?.windows || FORTNOX_RATE_LIMITS;
+    this.clock = options?.clock || systemClock;
+  }
+
+  /**
+   * Wait until a call for key is allowed
+   */
+  async acquire(key: string): Promise<RateLimitMetadata> {
+    const state = this.getState(key);
+    const queueDepth = state.pending;
+    const startedAt = this.clock.now();
+
+    state.pending++;
+    const turn = state.tail.then(() => this.take(state));
+    state.tail = turn.catch(() => undefined);
+
+    try {
+      await turn;
+    } finally {
+      state.pending--;
+    }
+
+    return { queueDepth, waitMs: this.clock.now() - startedAt };
+  }
+
+  /**
+   * Calls for key that are waiting for a slot
+   */
+  getQueueDepth(key: string): number {
+    return this.states.get(key)?.pending || 0;
+  }
+
+  private getState(key: string): KeyState {
+    let state = this.states.get(key);
+    if (!state) {
+      const now = this.clock.now();
+      state = {
+        buckets: this.windows.map(window => ({ window, tokens: window.limit, updatedAt: now })),
+        tail: Promise.resolve(),
+        pending: 0,
+      };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  private async take(state: KeyState): Promise<void> {
+    for (;;) {
+      const now = this.clock.now();
+      let waitMs = 0;
+
+      for (const bucket of state.buckets) {
+        const { limit, intervalMs } = bucket.window;
+        bucket.tokens = Math.min(limit, bucket.tokens + ((now - bucket.updatedAt) * limit) / intervalMs);
+        bucket.updatedAt = now;
+        if (bucket.tokens < 1) {
+          waitMs = Math.max(waitMs, Math.ceil(((1 - bucket.tokens) * intervalMs) / limit));
+        }
+      }
+
+      if (waitMs === 0) {
+        state.buckets.forEach(bucket => bucket.tokens--);
+        return;
+      }
+
+      await this.clock.sleep(waitMs);
+    }
+  }
+}
+
+/**
+ * Parse limits like "25/5s,300/1m" (units ms, s, m); "off" disables rate limiting
+ */
+export function parseRateLimits(value: string): RateLimitWindow[] | false {
+  if (value.trim().toLowerCase() === 'off') {
+    return false;
+  }
+
+  const units: Record<string, number> = { ms: 1, s: 1_000, m: 60_000 };
+
+  return value.split(',').map(part => {
+    const match = part.trim().match(/^(\d+)\s*\/\s*(\d+)?\s*(ms|s|m)$/);
+    if (!match || Number(match[1]) < 1) {
+      throw new Error(`Invalid rate limit "${part.trim()}" (expected e.g. 25/5s or 300/1m)`);
+    }
+    return {
+      limit: Number(match[1]),
+      intervalMs: Number(match[2] || 1) * units[match[3]],
+    };
+  });
+}
@@ -0,0 +1,308 @@
+import { OpenAPIParser, FortnoxEndpoint, Parameter, Schema } from './openapi-parser.js';
+
+export interface ValidationError {
+  pointer: string;
+  keyword: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationError[];
+}
+
+export interface RequestInput {
+  pathParams?: Record<string, unknown>;
+  queryParams?: Record<string, unknown>;
+  body?: unknown;
+}
+
+const INT32_MIN = -2147483648;
+const INT32_MAX = 2147483647;
+const INT64_MIN = -9223372036854775808;
+const INT64_MAX = 9223372036854775807;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Validates request parameters and bodies against the OpenAPI definitions
+ * Errors carry JSON pointers rooted at the request: /path/..., /query/..., /body/...
+ */
+export class RequestValidator {
+  private parser: OpenAPIParser;
+
+  constructor(parser: OpenAPIParser) {
+    this.parser = parser;
+  }
+
+  validateRequest(endpoint: FortnoxEndpoint, input: RequestInput): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    this.validateParameters(
+      endpoint.parameters.filter(p => p.in === 'path'),
+      input.pathParams || {},
+      '/path',
+      errors
+    );
+    this.validateParameters(
+      endpoint.parameters.filter(p => p.in === 'query'),
+      input.queryParams || {},
+      '/query',
+      errors
+    );
+
+    if (input.body !== undefined && input.body !== null) {
+      if (!endpoint.requestBodySchema) {
+        errors.push({
+          pointer: '/body',
+          keyword: 'body',
+          message: `${endpoint.method} ${endpoint.path} does not accept a request body`,
+        });
+      } else {
+        this.validateValue(input.body, endpoint.requestBodySchema, '/body', errors);
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate a value against a schema, appending errors for every violation found
+   */
+  validateValue(value: unknown, schema: Schema, pointer: string, errors: ValidationError[]): void {
+    if (schema.$ref) {
+      const resolved = this.parser.resolveSchemaRef(schema.$ref);
+      if (!resolved) {
+        errors.push({ pointer, keyword: '$ref', message: `Unresolvable schema reference ${schema.$ref}` });
+        return;
+      }
+      this.validateValue(value, resolved, pointer, errors);
+      return;
+    }
+
+    if (value === null || value === undefined) {
+      return;
+    }
+
+    const type = schema.type || (schema.properties ? 'object' : undefined);
+
+    if (type && !this.matchesType(value, type)) {
+      errors.push({
+        pointer,
+        keyword: 'type',
+        message: `Expected ${type} but got ${this.describeType(value)}`,
+      });
+      return;
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      errors.push({
+        pointer,
+        keyword: 'enum',
+        message: `Must be one of: ${schema.enum.join(', ')}`,
+      });
+    }
+
+    if (typeof value === 'string') {
+      this.validateString(value, schema, pointer, errors);
+    } else if (typeof value === 'number') {
+      this.validateNumber(value, schema, pointer, errors);
+    } else if (Array.isArray(value)) {
+      if (schema.items) {
+        value.forEach((item, index) => {
+          this.validateValue(item, schema.items as Schema, `${pointer}/${index}`, errors);
+        });
+      }
+    } else if (typeof value === 'object') {
+      this.validateObject(value as Record<string, unknown>, schema, pointer, errors);
+    }
+  }
+
+  private validateParameters(
+    parameters: Parameter[],
+    values: Record<string, unknown>,
+    pointerPrefix: string,
+    errors: ValidationError[]
+  ): void {
+    for (const parameter of parameters) {
+      const pointer = `${pointerPrefix}/${escapePointer(parameter.name)}`;
+      const value = values[parameter.name];
+
+      if (value === undefined || value === null || value === '') {
+        if (parameter.required || parameter.in === 'path') {
+          errors.push({ pointer, keyword: 'required', message: `Missing required ${parameter.in} parameter ${parameter.name}` });
+        }
+        continue;
+      }
+
+      if (parameter.schema) {
+        this.validateValue(this.coerceParameter(value, parameter.schema), parameter.schema, pointer, errors);
+      }
+    }
+  }
+
+  /**
+   * Path and query values travel as strings, so convert them to the declared type first
+   */
+  private coerceParameter(value: unknown, schema: Schema): unknown {
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    const resolved = schema.$ref ? this.parser.resolveSchemaRef(schema.$ref) : schema;
+    const type = resolved?.type;
+
+    if ((type === 'integer' || type === 'number') && value.trim() !== '' && !isNaN(Number(value))) {
+      return Number(value);
+    }
+    if (type === 'boolean' && (value === 'true' || value === 'false')) {
+      return value === 'true';
+    }
+    return value;
+  }
+
+  private validateString(value: string, schema: Schema, pointer: string, errors: ValidationError[]): void {
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ pointer, keyword: 'maxLength', message: `Must be at most ${schema.maxLength} characters (got ${value.length})` });
+    }
+
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ pointer, keyword: 'minLength', message: `Must be at least ${schema.minLength} characters (got ${value.length})` });
+    }
+
+    if (schema.pattern) {
+      let regex: RegExp | undefined;
+      try {
+        regex = new RegExp(schema.pattern);
+      } catch {
+        // Pattern is not a valid JavaScript regex, skip the check
+      }
+      if (regex && !regex.test(value)) {
+        errors.push({ pointer, keyword: 'pattern', message: `Must match pattern ${schema.pattern}` });
+      }
+    }
+
+    if (schema.format) {
+      const formatError = this.checkStringFormat(value, schema.format);
+      if (formatError) {
+        errors.push({ pointer, keyword: 'format', message: formatError });
+      }
+    }
+  }
+
+  private checkStringFormat(value: string, format: string): string | undefined {
+    switch (format) {
+      case 'date': {
+        const match = value.match(DATE_PATTERN);
+        if (!match) {
+          return 'Must be a date in YYYY-MM-DD format';
+        }
+        const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+        if (date.getUTCMonth() !== Number(match[2]) - 1 || date.getUTCDate() !== Number(match[3])) {
+          return `${value} is not a valid calendar date`;
+        }
+        return undefined;
+      }
+      case 'date-time':
+        return isNaN(Date.parse(value)) ? 'Must be an ISO 8601 date-time' : undefined;
+      case 'uuid':
+        return UUID_PATTERN.test(value) ? undefined : 'Must be a UUID';
+      case 'email':
+        return EMAIL_PATTERN.test(value) ? undefined : 'Must be an email address';
+      default:
+        return undefined;
+    }
+  }
+
+  private validateNumber(value: number, schema: Schema, pointer: string, errors: ValidationError[]): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ pointer, keyword: 'minimum', message: `Must be >= ${schema.minimum} (got ${value})` });
+    }
+
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ pointer, keyword: 'maximum', message: `Must be <= ${schema.maximum} (got ${value})` });
+    }
+
+    if (schema.format === 'int32' && (value < INT32_MIN || value > INT32_MAX)) {
+      errors.push({ pointer, keyword: 'format', message: 'Must be a 32-bit integer' });
+    }
+
+    if (schema.format === 'int64' && (!Number.isInteger(value) || value < INT64_MIN || value > INT64_MAX)) {
+      errors.push({ pointer, keyword: 'format', message: 'Must be a 64-bit integer' });
+    }
+  }
+
+  private validateObject(
+    value: Record<string, unknown>,
+    schema: Schema,
+    pointer: string,
+    errors: ValidationError[]
+  ): void {
+    for (const name of schema.required || []) {
+      if (!Object.hasOwn(value, name) || value[name] === undefined || value[name] === null) {
+        errors.push({
+          pointer: `${pointer}/${escapePointer(name)}`,
+          keyword: 'required',
+          message: `Missing required property ${name}`,
+        });
+      }
+    }
+
+    const properties = schema.properties || {};
+
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const propertyPointer = `${pointer}/${escapePointer(name)}`;
+      // Own properties only, so keys such as constructor or __proto__ are not taken for Object.prototype members
+      const propertySchema = Object.hasOwn(properties, name) ? properties[name] : undefined;
+
+      if (propertySchema) {
+        this.validateValue(propertyValue, propertySchema, propertyPointer, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ pointer: propertyPointer, keyword: 'additionalProperties', message: `Unknown property ${name}` });
+      } else if (typeof schema.additionalProperties === 'object') {
+        this.validateValue(propertyValue, schema.additionalProperties, propertyPointer, errors);
+      }
+    }
+  }
+
+  private matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+      case 'string':
+        return typeof value === 'string';
+      case 'integer':
+        return typeof value === 'number' && Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && isFinite(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return typeof value === 'object' && !Array.isArray(value);
+      default:
+        return true;
+    }
+  }
+
+  private describeType(value: unknown): string {
+    if (Array.isArray(value)) {
+      return 'array';
+    }
+    if (typeof value === 'number' && Number.isInteger(value)) {
+      return 'integer';
+    }
+    return typeof value;
+  }
+}
+
+/**
+ * Escape a property name for use as a JSON pointer segment (RFC 6901)
+ */
+export function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -0,0 +1,73 @@
+import { FortnoxEndpoint } from './openapi-parser.js';
+
+export type ResourceRef =
+  | { kind: 'endpoint'; method: string; path: string }
+  | { kind: 'schema'; name: string }
+  | { kind: 'tag'; tag: string };
+
+const SCHEME = 'fortnox://';
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${SCHEME}endpoints/{method}/{path}`,
+    name: 'Endpoint documentation',
+    description: 'Parameters, request body and response of one endpoint. path is the endpoint path without the leading slash, with {placeholders} percent-encoded (e.g. fortnox://endpoints/GET/3/invoices/%7BDocumentNumber%7D)',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: `${SCHEME}schemas/{name}`,
+    name: 'Schema documentation',
+    description: 'Field table of a data model (e.g. fortnox://schemas/fortnox_Customer)',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: `${SCHEME}tags/{tag}`,
+    name: 'Resource group',
+    description: 'All endpoints of a resource group (e.g. fortnox://tags/fortnox_Invoices)',
+    mimeType: 'text/markdown',
+  },
+];
+
+export function endpointUri(endpoint: FortnoxEndpoint): string {
+  return `${SCHEME}endpoints/${endpoint.method}${encodeURI(endpoint.path)}`;
+}
+
+export function schemaUri(name: string): string {
+  return `${SCHEME}schemas/${encodeURIComponent(name)}`;
+}
+
+export function tagUri(tag: string): string {
+  return `${SCHEME}tags/${encodeURIComponent(tag)}`;
+}
+
+/**
+ * Parse a fortnox:// URI back into what it points at, undefined for anything else
+ */
+export function parseResourceUri(uri: string): ResourceRef | undefined {
+  if (!uri.startsWith(SCHEME)) {
+    return undefined;
+  }
+
+  const [kind, ...rest] = uri.slice(SCHEME.length).split('/');
+  if (rest.length === 0 || rest[0] === '') {
+    return undefined;
+  }
+
+  try {
+    switch (kind) {
+      case 'endpoints':
+        return rest.length < 2
+          ? undefined
+          : { kind: 'endpoint', method: rest[0].toUpperCase(), path: `/${decodeURI(rest.slice(1).join('/'))}` };
+      case 'schemas':
+        return { kind: 'schema', name: decodeURIComponent(rest.join('/')) };
+      case 'tags':
+        return { kind: 'tag', tag: decodeURIComponent(rest.join('/')) };
+      default:
+        return undefined;
+    }
+  } catch {
+    // Malformed percent-encoding
+    return undefined;
+  }
+}
@@ -0,0 +1,70 @@
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled for every further retry (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay, including Retry-After (default: 30000) */
+  maxDelayMs?: number;
+  /** Also retry POST and PATCH, which may not be safe to repeat (default: false) */
+  retryNonIdempotent?: boolean;
+}
+
+export interface RetryAttempt {
+  attempt: number;
+  /** HTTP status, undefined for network errors and timeouts */
+  status?: number;
+  error?: string;
+  /** Wait before the next attempt, undefined for the last one */
+  delayMs?: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  retryNonIdempotent: false,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+export function isIdempotent(method: string): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * 429 and 5xx are worth retrying; other statuses will fail the same way again
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Delay before retry number `retry` (1-based): exponential backoff with jitter,
+ * or the server's Retry-After when it sent one
+ */
+export function retryDelay(retry: number, options: Required<RetryOptions>, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, options.maxDelayMs);
+  }
+
+  const backoff = Math.min(options.baseDelayMs * 2 ** (retry - 1), options.maxDelayMs);
+  // Equal jitter: at least half the backoff, so retries from many clients spread out without collapsing to zero
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds from now
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -0,0 +1,131 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export type RiskLevel = 'read' | 'write' | 'destructive' | 'irreversible-accounting';
+
+/**
+ * Path suffixes of actions that cannot be undone in accounting terms
+ * Includes voiding and completing warehouse documents, which book their stock changes for good.
+ */
+export const IRREVERSIBLE_ACTIONS = [
+  'bookkeep',
+  'approvalbookkeep',
+  'cancel',
+  'credit',
+  'finish',
+  'void',
+  'complete',
+  'completed',
+  'dropshipcomplete',
+];
+
+const CONFIRMATION_TTL_MS = 5 * 60_000;
+
+/**
+ * Classify an endpoint from its method and the last segment of its path
+ */
+export function classifyRisk(endpoint: { method: string; path: string }): RiskLevel {
+  const method = endpoint.method.toUpperCase();
+  const lastSegment = endpoint.path.split('/').filter(Boolean).pop() || '';
+
+  if (IRREVERSIBLE_ACTIONS.includes(lastSegment.toLowerCase())) {
+    return 'irreversible-accounting';
+  }
+  if (method === 'DELETE') {
+    return 'destructive';
+  }
+  if (method === 'GET' || method === 'HEAD') {
+    return 'read';
+  }
+  return 'write';
+}
+
+/**
+ * Risky calls are only executed with a confirmation token from a dry run
+ */
+export function isRisky(risk: RiskLevel): boolean {
+  return risk === 'destructive' || risk === 'irreversible-accounting';
+}
+
+/**
+ * What call_endpoint does with a call: preview it, check its confirmation token first, or send it
+ * A risky call is never sent without a token; dryRun can force a preview but never skip one.
+ */
+export function confirmationStep(
+  risk: RiskLevel,
+  options: { dryRun?: boolean; confirmationToken?: string }
+): 'dry-run' | 'confirm' | 'send' {
+  if (options.dryRun === true) {
+    return 'dry-run';
+  }
+  if (options.confirmationToken) {
+    return 'confirm';
+  }
+  return isRisky(risk) ? 'dry-run' : 'send';
+}
+
+/**
+ * Single-use tokens that confirm one exact request
+ * A token is an HMAC over the request and its expiry, so it stops matching when anything in
+ * the request changes. Tokens are only valid in the process that issued them.
+ */
+export class ConfirmationTokens {
+  private secret = randomBytes(32);
+  private used = new Map<string, number>();
+  private ttlMs: number;
+
+  constructor(options?: { ttlMs?: number }) {
+    this.ttlMs = options?.ttlMs ?? CONFIRMATION_TTL_MS;
+  }
+
+  issue(request: unknown): { token: string; expiresAt: number } {
+    const expiresAt = Date.now() + this.ttlMs;
+    return { token: `${expiresAt}.${this.sign(request, expiresAt)}`, expiresAt };
+  }
+
+  /**
+   * Check a token against the request it is presented with, consuming it when it matches
+   */
+  consume(token: string, request: unknown): boolean {
+    const now = Date.now();
+    for (const [usedToken, expiresAt] of this.used) {
+      if (expiresAt <= now) {
+        this.used.delete(usedToken);
+      }
+    }
+
+    const [expiry, signature] = token.split('.');
+    const expiresAt = Number(expiry);
+    if (!signature || !Number.isFinite(expiresAt) || expiresAt <= now || this.used.has(token)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(request, expiresAt));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return false;
+    }
+
+    this.used.set(token, expiresAt);
+    return true;
+  }
+
+  private sign(request: unknown, expiresAt: number): string {
+    return createHmac('sha256', this.secret).update(`${expiresAt}\n${canonicalJson(request)}`).digest('base64url');
+  }
+}
+
+/**
+ * JSON with object keys sorted, so equal requests serialize identically
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,176 @@
+import { OpenAPIParser, Schema, schemaNameFromRef } from './openapi-parser.js';
+
+export interface SchemaField {
+  path: string;
+  type: string;
+  required: boolean;
+  constraints: string[];
+  enumValues: unknown[];
+  description: string;
+}
+
+export interface UnwrappedSchema {
+  schema: Schema;
+  /** Name of the envelope schema, e.g. fortnox_Invoice_Wrap */
+  wrapperName?: string;
+  /** Property holding the payload inside the envelope, e.g. Invoice */
+  wrapperKey?: string;
+}
+
+const MAX_DESCRIPTION_LENGTH = 160;
+
+/**
+ * Renders schemas as flat markdown field tables instead of raw JSON
+ * Nested objects and arrays become dotted paths (e.g. InvoiceRows[].ArticleNumber)
+ */
+export class SchemaRenderer {
+  private parser: OpenAPIParser;
+
+  constructor(parser: OpenAPIParser) {
+    this.parser = parser;
+  }
+
+  /**
+   * Fortnox wraps most payloads in a single-property envelope ({ "Invoice": {...} })
+   * described by a *_Wrap schema. Return the inner schema when that is the case.
+   */
+  unwrap(schema: Schema): UnwrappedSchema {
+    if (!schema.$ref) {
+      return { schema };
+    }
+
+    const wrapperName = schemaNameFromRef(schema.$ref);
+    const resolved = this.parser.resolveSchemaRef(schema.$ref);
+    const propertyNames = Object.keys(resolved?.properties || {});
+
+    if (!resolved || !/Wrap$/.test(wrapperName) || propertyNames.length !== 1) {
+      return { schema };
+    }
+
+    return {
+      schema: resolved.properties![propertyNames[0]],
+      wrapperName,
+      wrapperKey: propertyNames[0],
+    };
+  }
+
+  /**
+   * Flatten a schema into one row per (nested) property
+   */
+  flatten(schema: Schema, options?: { maxDepth?: number }): SchemaField[] {
+    const dereferenced = this.parser.dereferenceSchema(schema, options);
+    const fields: SchemaField[] = [];
+
+    const root = dereferenced.type === 'array' && dereferenced.items ? dereferenced.items : dereferenced;
+    const prefix = root === dereferenced ? '' : '[]';
+    this.collectFields(root, prefix, fields);
+
+    return fields;
+  }
+
+  /**
+   * Render a schema as a markdown table, unwrapping the Fortnox envelope first
+   */
+  renderTable(schema: Schema, options?: { maxDepth?: number }): string {
+    const unwrapped = this.unwrap(schema);
+    const fields = this.flatten(unwrapped.schema, options);
+    const lines: string[] = [];
+
+    if (unwrapped.wrapperKey) {
+      const innerName = unwrapped.schema.$ref
+        ? schemaNameFromRef(unwrapped.schema.$ref)
+        : this.formatType(unwrapped.schema);
+      lines.push(`Wrapped in \`{ "${unwrapped.wrapperKey}": ... }\` (${unwrapped.wrapperName}). Fields of **${innerName}**:`);
+      lines.push('');
+    } else if (schema.$ref) {
+      lines.push(`Fields of **${schemaNameFromRef(schema.$ref)}**:`);
+      lines.push('');
+    }
+
+    if (fields.length === 0) {
+      lines.push(`Type: ${this.formatType(this.parser.dereferenceSchema(unwrapped.schema, { maxDepth: 1 }))}`);
+      return lines.join('\n');
+    }
+
+    lines.push('| Field | Type | Required | Constraints | Allowed Values | Description |');
+    lines.push('|-------|------|----------|-------------|----------------|-------------|');
+    for (const field of fields) {
+      lines.push(`| \`${field.path}\` | ${escapeCell(field.type)} | ${field.required ? 'Yes' : 'No'} | ${escapeCell(field.constraints.join(', '))} | ${escapeCell(field.enumValues.join(', '))} | ${escapeCell(field.description)} |`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private collectFields(schema: Schema, prefix: string, fields: SchemaField[]): void {
+    const required = new Set(schema.required || []);
+
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      const path = prefix ? `${prefix}.${name}` : name;
+
+      fields.push({
+        path,
+        type: this.formatType(property),
+        required: required.has(name),
+        constraints: this.describeConstraints(property),
+        enumValues: property.enum || property.items?.enum || [],
+        description: truncate(property.description || ''),
+      });
+
+      if (property.properties) {
+        this.collectFields(property, path, fields);
+      } else if (property.type === 'array' && property.items?.properties) {
+        this.collectFields(property.items, `${path}[]`, fields);
+      }
+    }
+  }
+
+  formatType(schema: Schema): string {
+    if (schema.$ref) {
+      return schemaNameFromRef(schema.$ref);
+    }
+
+    if (schema.type === 'array') {
+      return `array<${schema.items ? this.formatType(schema.items) : 'unknown'}>`;
+    }
+
+    if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      return `map<string, ${this.formatType(schema.additionalProperties)}>`;
+    }
+
+    const type = schema.type || (schema.properties ? 'object' : 'unknown');
+    return schema.format ? `${type} (${schema.format})` : type;
+  }
+
+  private describeConstraints(schema: Schema): string[] {
+    const constraints: string[] = [];
+
+    if (schema.minLength !== undefined) {
+      constraints.push(`minLength ${schema.minLength}`);
+    }
+    if (schema.maxLength !== undefined) {
+      constraints.push(`maxLength ${schema.maxLength}`);
+    }
+    if (schema.minimum !== undefined) {
+      constraints.push(`min ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined) {
+      constraints.push(`max ${schema.maximum}`);
+    }
+    if (schema.pattern) {
+      constraints.push(`pattern ${schema.pattern}`);
+    }
+
+    return constraints;
+  }
+}
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_DESCRIPTION_LENGTH
+    ? `${singleLine.substring(0, MAX_DESCRIPTION_LENGTH)}...`
+    : singleLine;
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
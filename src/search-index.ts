@@ -0,0 +1,454 @@
+import { OpenAPIParser, FortnoxEndpoint, Schema, SchemaUsage } from './openapi-parser.js';
+import { SchemaRenderer } from './schema-renderer.js';
+
+export type SearchField = 'path' | 'operationId' | 'summary' | 'tags' | 'description';
+
+export interface SearchResult {
+  endpoint: FortnoxEndpoint;
+  score: number;
+  matchedFields: SearchField[];
+}
+
+export type SchemaSearchField = 'property' | 'enum' | 'schema' | 'description';
+
+export interface SchemaSearchResult {
+  schemaName: string;
+  /** Dotted property path inside the schema, empty for a match on the schema itself */
+  propertyPath: string;
+  type: string;
+  description?: string;
+  enumValues: unknown[];
+  score: number;
+  matchedFields: SchemaSearchField[];
+  usages: SchemaUsage[];
+}
+
+/**
+ * Relative importance of a hit in each field
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  path: 3,
+  operationId: 3,
+  summary: 3,
+  tags: 2,
+  description: 1,
+};
+
+const LENGTH_NORMALIZED_FIELDS: SearchField[] = ['path', 'operationId'];
+
+/**
+ * How strongly each kind of token match counts
+ */
+const MATCH_QUALITY = {
+  exact: 1,
+  prefix: 0.8,
+  typo: 0.6,
+  substring: 0.5,
+  synonym: 0.9,
+};
+
+/**
+ * Swedish and English terms mapped to the vocabulary used in the spec
+ */
+const SYNONYMS = new Map<string, string[]>(Object.entries({
+  faktura: ['invoice'],
+  fakturor: ['invoice'],
+  kund: ['customer'],
+  kunder: ['customer'],
+  client: ['customer'],
+  leverantor: ['supplier'],
+  leverantorer: ['supplier'],
+  vendor: ['supplier'],
+  leverantorsfaktura: ['supplierinvoice'],
+  leverantorsfakturor: ['supplierinvoice'],
+  artikel: ['article'],
+  artiklar: ['article'],
+  product: ['article'],
+  produkt: ['article'],
+  offert: ['offer'],
+  offerter: ['offer'],
+  quote: ['offer'],
+  betalning: ['payment'],
+  betalningar: ['payment'],
+  inbetalning: ['invoicepayment'],
+  utbetalning: ['supplierinvoicepayment'],
+  verifikation: ['voucher'],
+  verifikationer: ['voucher'],
+  konto: ['account'],
+  konton: ['account'],
+  kontoplan: ['accountchart'],
+  projekt: ['project'],
+  anstalld: ['employee'],
+  anstallda: ['employee'],
+  bokfor: ['bookkeep'],
+  bokfora: ['bookkeep'],
+  book: ['bookkeep'],
+  skicka: ['send', 'email'],
+  epost: ['email'],
+  mejl: ['email'],
+  mail: ['email'],
+  avtal: ['contract'],
+  kostnadsstalle: ['costcenter'],
+  valuta: ['currency'],
+  valutor: ['currency'],
+  lager: ['warehouse', 'stock'],
+  pris: ['price'],
+  priser: ['price'],
+  prislista: ['pricelist'],
+  enhet: ['unit'],
+  moms: ['vat', 'tax'],
+  installningar: ['settings'],
+  bilaga: ['attachment'],
+  bilagor: ['attachment'],
+  arkiv: ['archive'],
+  inkorg: ['inbox'],
+  rakenskapsar: ['financialyear'],
+  tidrapport: ['timereporting', 'registration'],
+  leverans: ['delivery'],
+  kreditera: ['credit'],
+  makulera: ['cancel'],
+  makulerad: ['cancel'],
+  skriv: ['print'],
+  utskrift: ['print'],
+  franvaro: ['absence'],
+  narvaro: ['attendance'],
+  foretag: ['company'],
+  bill: ['invoice'],
+  remove: ['delete'],
+}));
+
+interface IndexedEndpoint {
+  endpoint: FortnoxEndpoint;
+  position: number;
+  fields: Record<SearchField, string[]>;
+}
+
+/**
+ * In-memory search index over the endpoints, built once at startup
+ * Scores combine field weights with exact, prefix, typo-tolerant and synonym matches.
+ */
+export class SearchIndex {
+  private entries: IndexedEndpoint[];
+
+  constructor(endpoints: FortnoxEndpoint[]) {
+    this.entries = endpoints.map((endpoint, position) => ({
+      endpoint,
+      position,
+      fields: {
+        path: unique(tokenize(endpoint.path)),
+        operationId: unique(tokenize(endpoint.operationId)),
+        summary: unique(withCompounds(tokenize(endpoint.summary || ''))),
+        tags: unique((endpoint.tags || []).flatMap(tag => withCompounds(tokenize(tag.replace(/^fortnox_/, ''))))),
+        description: unique(tokenize(endpoint.description || '')),
+      },
+    }));
+  }
+
+  search(query: string, limit?: number): SearchResult[] {
+    const queryTokens = unique(tokenize(query));
+    if (queryTokens.length === 0) {
+      return [];
+    }
+
+    const results: Array<SearchResult & { position: number }> = [];
+
+    for (const entry of this.entries) {
+      let score = 0;
+      let matchedTokens = 0;
+      const matchedFields = new Set<SearchField>();
+
+      for (const queryToken of queryTokens) {
+        let tokenScore = 0;
+
+        for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+          const tokens = entry.fields[field];
+          const quality = bestMatch(queryToken, tokens);
+          if (quality > 0) {
+            matchedFields.add(field);
+            // Short fields are more specific: a hit in "/3/customers" beats one in "/3/customerreferences/{Id}"
+            const specificity = LENGTH_NORMALIZED_FIELDS.includes(field) ? 1 / Math.sqrt(tokens.length) : 1;
+            tokenScore += quality * FIELD_WEIGHTS[field] * specificity;
+          }
+        }
+
+        if (tokenScore > 0) {
+          matchedTokens++;
+          score += tokenScore;
+        }
+      }
+
+      if (score > 0) {
+        // Prefer endpoints that match every word of the query
+        if (matchedTokens === queryTokens.length && queryTokens.length > 1) {
+          score *= 1.5;
+        }
+        results.push({
+          endpoint: entry.endpoint,
+          score: Math.round(score * 100) / 100,
+          matchedFields: (Object.keys(FIELD_WEIGHTS) as SearchField[]).filter(f => matchedFields.has(f)),
+          position: entry.position,
+        });
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score || a.position - b.position);
+
+    return results
+      .slice(0, limit ?? results.length)
+      .map(({ position: _position, ...result }) => result);
+  }
+}
+
+const SCHEMA_FIELD_WEIGHTS: Record<SchemaSearchField, number> = {
+  property: 3,
+  enum: 2,
+  schema: 1,
+  description: 1,
+};
+
+interface IndexedProperty {
+  schemaName: string;
+  propertyPath: string;
+  type: string;
+  description?: string;
+  enumValues: unknown[];
+  fields: Record<SchemaSearchField, string[]>;
+}
+
+/**
+ * Search index over every schema in components.schemas and its nested property paths
+ * Properties that are $refs are listed with their type but not expanded, since the
+ * referenced schema is indexed on its own.
+ */
+export class SchemaSearchIndex {
+  private parser: OpenAPIParser;
+  private renderer: SchemaRenderer;
+  private entries: IndexedProperty[] = [];
+  private usages = new Map<string, SchemaUsage[]>();
+
+  constructor(parser: OpenAPIParser) {
+    this.parser = parser;
+    this.renderer = new SchemaRenderer(parser);
+
+    for (const [name, schema] of Object.entries(parser.getSpec().components?.schemas || {})) {
+      this.indexSchema(name, schema);
+      this.usages.set(name, parser.getSchemaUsages(name));
+    }
+  }
+
+  search(query: string, limit?: number): SchemaSearchResult[] {
+    const queryTokens = unique(tokenize(query));
+    const compact = query.toLowerCase().replace(/[^a-z0-9]/g, '');
+    if (queryTokens.length === 0) {
+      return [];
+    }
+
+    const results: SchemaSearchResult[] = [];
+
+    for (const entry of this.entries) {
+      let score = 0;
+      let matchedTokens = 0;
+      const matchedFields = new Set<SchemaSearchField>();
+
+      for (const queryToken of queryTokens) {
+        let tokenScore = 0;
+        for (const field of Object.keys(SCHEMA_FIELD_WEIGHTS) as SchemaSearchField[]) {
+          const quality = bestMatch(queryToken, entry.fields[field]);
+          if (quality > 0) {
+            matchedFields.add(field);
+            tokenScore += quality * SCHEMA_FIELD_WEIGHTS[field];
+          }
+        }
+        if (tokenScore > 0) {
+          matchedTokens++;
+          score += tokenScore;
+        }
+      }
+
+      // Exact property name matches ("YourOrderNumber", "OCR") go first
+      const propertyName = entry.propertyPath.split('.').pop()?.replace('[]', '').toLowerCase() || '';
+      if (propertyName && propertyName.replace(/[^a-z0-9]/g, '') === compact) {
+        score *= 2;
+      }
+
+      // Multi-word queries must match every word
+      if (score > 0 && matchedTokens === queryTokens.length) {
+        results.push({
+          schemaName: entry.schemaName,
+          propertyPath: entry.propertyPath,
+          type: entry.type,
+          description: entry.description,
+          enumValues: entry.enumValues,
+          score: Math.round(score * 100) / 100,
+          matchedFields: (Object.keys(SCHEMA_FIELD_WEIGHTS) as SchemaSearchField[]).filter(f => matchedFields.has(f)),
+          usages: this.usages.get(entry.schemaName) || [],
+        });
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score
+      || a.schemaName.localeCompare(b.schemaName)
+      || a.propertyPath.localeCompare(b.propertyPath));
+
+    return results.slice(0, limit ?? results.length);
+  }
+
+  private indexSchema(schemaName: string, schema: Schema): void {
+    this.entries.push({
+      schemaName,
+      propertyPath: '',
+      type: this.renderer.formatType(schema),
+      description: schema.description,
+      enumValues: schema.enum || [],
+      fields: {
+        property: [],
+        enum: tokenize((schema.enum || []).join(' ')),
+        schema: unique(withCompounds(tokenize(schemaName))),
+        description: unique(tokenize(schema.description || '')),
+      },
+    });
+
+    this.indexProperties(schemaName, schema, '');
+  }
+
+  private indexProperties(schemaName: string, schema: Schema, prefix: string): void {
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      const propertyPath = prefix ? `${prefix}.${name}` : name;
+      const enumValues = property.enum || property.items?.enum || [];
+
+      this.entries.push({
+        schemaName,
+        propertyPath,
+        type: this.renderer.formatType(property),
+        description: property.description,
+        enumValues,
+        fields: {
+          property: unique([...withCompounds(tokenize(name)), name.toLowerCase().replace(/[^a-z0-9]/g, '')]),
+          enum: unique(tokenize(enumValues.join(' '))),
+          schema: unique(withCompounds(tokenize(schemaName))),
+          description: unique(tokenize(property.description || '')),
+        },
+      });
+
+      if (property.properties) {
+        this.indexProperties(schemaName, property, propertyPath);
+      } else if (property.type === 'array' && property.items?.properties) {
+        this.indexProperties(schemaName, property.items, `${propertyPath}[]`);
+      }
+    }
+  }
+}
+
+/**
+ * Split text into lowercase words, breaking camelCase, paths and punctuation
+ * Swedish characters are folded (å/ä -> a, ö -> o) so "leverantör" matches "leverantor".
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1);
+}
+
+/**
+ * Add adjacent word pairs joined together, so "supplier invoice" also matches "supplierinvoice"
+ */
+function withCompounds(tokens: string[]): string[] {
+  const compounds = tokens.slice(1).map((token, i) => `${tokens[i]}${token}`);
+  return [...tokens, ...compounds];
+}
+
+function unique(tokens: string[]): string[] {
+  return Array.from(new Set(tokens));
+}
+
+/**
+ * Best match quality of a query token against a field's tokens (0 when nothing matches)
+ */
+function bestMatch(queryToken: string, fieldTokens: string[]): number {
+  const candidates: Array<[string, number]> = [[stem(queryToken), 1]];
+  for (const synonym of SYNONYMS.get(queryToken) || []) {
+    candidates.push([stem(synonym), MATCH_QUALITY.synonym]);
+  }
+
+  let best = 0;
+  for (const fieldToken of fieldTokens) {
+    const fieldStem = stem(fieldToken);
+    for (const [candidate, factor] of candidates) {
+      best = Math.max(best, matchQuality(candidate, fieldStem) * factor);
+      if (best === 1) {
+        return best;
+      }
+    }
+  }
+  return best;
+}
+
+function matchQuality(queryStem: string, fieldStem: string): number {
+  if (queryStem === fieldStem) {
+    return MATCH_QUALITY.exact;
+  }
+  if (queryStem.length >= 3 && fieldStem.startsWith(queryStem)) {
+    return MATCH_QUALITY.prefix;
+  }
+  const maxDistance = queryStem.length >= 8 ? 2 : queryStem.length >= 4 ? 1 : 0;
+  if (maxDistance > 0 && editDistance(queryStem, fieldStem, maxDistance) <= maxDistance) {
+    return MATCH_QUALITY.typo;
+  }
+  if (queryStem.length >= 3 && fieldStem.includes(queryStem)) {
+    return MATCH_QUALITY.substring;
+  }
+  return 0;
+}
+
+/**
+ * Crude English plural stripping so "invoices" matches "invoice"
+ */
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) {
+    return `${token.slice(0, -3)}y`;
+  }
+  if (token.length > 4 && /(xes|ches|shes)$/.test(token)) {
+    return token.slice(0, -2);
+  }
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+/**
+ * Edit distance counting adjacent transpositions as one edit ("invocie" -> "invoice"),
+ * giving up early once it exceeds maxDistance
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,242 @@
+import { OpenAPIParser, FortnoxEndpoint } from './openapi-parser.js';
+import { ExampleGenerator, ExampleMode } from './example-generator.js';
+import { buildHeaders, resolveEndpointPath } from './fortnox-client.js';
+
+export type SnippetTarget = 'curl' | 'typescript-fetch' | 'typescript-client' | 'python';
+
+export const SNIPPET_TARGETS: SnippetTarget[] = ['curl', 'typescript-fetch', 'typescript-client', 'python'];
+
+export interface Snippet {
+  target: SnippetTarget;
+  language: string;
+  code: string;
+}
+
+/**
+ * Placeholder passed to buildHeaders, replaced with an environment variable
+ * lookup in each target language
+ */
+const ACCESS_TOKEN_PLACEHOLDER = '__ACCESS_TOKEN__';
+const ACCESS_TOKEN_ENV = 'FORTNOX_ACCESS_TOKEN';
+
+interface ResolvedRequest {
+  method: string;
+  baseUrl: string;
+  path: string;
+  url: string;
+  queryParams: Record<string, string>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Generates ready-to-run request snippets for an endpoint
+ * Path parameters, required query parameters and the body are filled with example values.
+ */
+export class SnippetGenerator {
+  private parser: OpenAPIParser;
+  private examples: ExampleGenerator;
+
+  constructor(parser: OpenAPIParser, examples: ExampleGenerator) {
+    this.parser = parser;
+    this.examples = examples;
+  }
+
+  generate(
+    endpoint: FortnoxEndpoint,
+    targets: SnippetTarget[] = SNIPPET_TARGETS,
+    options?: { mode?: ExampleMode }
+  ): Snippet[] {
+    const request = this.resolveRequest(endpoint, options?.mode || 'required');
+
+    return targets.map(target => {
+      switch (target) {
+        case 'curl':
+          return { target, language: 'bash', code: this.curl(request) };
+        case 'typescript-fetch':
+          return { target, language: 'typescript', code: this.typescriptFetch(request) };
+        case 'typescript-client':
+          return { target, language: 'typescript', code: this.typescriptClient(request) };
+        case 'python':
+          return { target, language: 'python', code: this.python(request) };
+        default:
+          throw new Error(`Unknown snippet target: ${target}`);
+      }
+    });
+  }
+
+  private resolveRequest(endpoint: FortnoxEndpoint, mode: ExampleMode): ResolvedRequest {
+    const pathParams: Record<string, string> = {};
+    const queryParams: Record<string, string> = {};
+
+    for (const parameter of endpoint.parameters) {
+      if (parameter.in === 'path') {
+        pathParams[parameter.name] = String(this.examples.generate(parameter.schema || { type: 'string' }, { name: parameter.name }));
+      } else if (parameter.in === 'query' && parameter.required) {
+        queryParams[parameter.name] = String(this.examples.generate(parameter.schema || { type: 'string' }, { name: parameter.name }));
+      }
+    }
+
+    const path = resolveEndpointPath(endpoint, pathParams);
+    const query = new URLSearchParams(queryParams).toString();
+
+    const baseUrl = this.parser.getBaseUrl(endpoint);
+
+    return {
+      method: endpoint.method,
+      baseUrl,
+      path,
+      url: `${baseUrl}${path}${query ? `?${query}` : ''}`,
+      queryParams,
+      headers: buildHeaders(ACCESS_TOKEN_PLACEHOLDER),
+      body: endpoint.requestBodySchema
+        ? this.examples.generate(endpoint.requestBodySchema, { mode })
+        : undefined,
+    };
+  }
+
+  private curl(request: ResolvedRequest): string {
+    const lines = [`curl -X ${request.method} '${request.url}'`];
+
+    for (const [name, value] of Object.entries(request.headers)) {
+      lines.push(value.includes(ACCESS_TOKEN_PLACEHOLDER)
+        ? `-H "${name}: ${value.replace(ACCESS_TOKEN_PLACEHOLDER, `$${ACCESS_TOKEN_ENV}`)}"`
+        : `-H '${name}: ${value}'`);
+    }
+
+    if (request.body !== undefined) {
+      lines.push(`--data '${JSON.stringify(request.body, null, 2).replace(/'/g, `'\\''`)}'`);
+    }
+
+    return lines.join(' \\\n  ');
+  }
+
+  private typescriptFetch(request: ResolvedRequest): string {
+    const headers = Object.entries(request.headers)
+      .map(([name, value]) => {
+        const rendered = value.includes(ACCESS_TOKEN_PLACEHOLDER)
+          ? `\`${value.replace(ACCESS_TOKEN_PLACEHOLDER, `\${process.env.${ACCESS_TOKEN_ENV}}`)}\``
+          : `'${value}'`;
+        return `    '${name}': ${rendered},`;
+      })
+      .join('\n');
+
+    const body = request.body !== undefined
+      ? `  body: JSON.stringify(${indent(JSON.stringify(request.body, null, 2), '  ')}),\n`
+      : '';
+
+    return `const response = await fetch('${request.url}', {
+  method: '${request.method}',
+  headers: {
+${headers}
+  },
+${body}});
+
+if (!response.ok) {
+  throw new Error(\`Fortnox request failed: \${response.status} \${await response.text()}\`);
+}
+
+const data = await response.json();
+console.log(data);`;
+  }
+
+  private typescriptClient(request: ResolvedRequest): string {
+    const hasQuery = Object.keys(request.queryParams).length > 0;
+    const options: string[] = [];
+    if (hasQuery) {
+      options.push(`  queryParams: ${indent(JSON.stringify(request.queryParams, null, 2), '  ')},`);
+    }
+    if (request.body !== undefined) {
+      options.push(`  body: ${indent(JSON.stringify(request.body, null, 2), '  ')},`);
+    }
+
+    const call = options.length > 0
+      ? `await client.request('${request.path}', '${request.method}', {\n${options.join('\n')}\n});`
+      : `await client.request('${request.path}', '${request.method}');`;
+
+    return `import { FortnoxAPIClient } from 'fortnox-doc-mcp/dist/fortnox-client.js';
+
+const client = new FortnoxAPIClient({
+  accessToken: process.env.FORTNOX_ACCESS_TOKEN!,
+  baseUrl: '${request.baseUrl}',
+});
+
+const response = ${call}
+
+if (!response.success) {
+  throw new Error(response.error?.message);
+}
+
+console.log(response.data);`;
+  }
+
+  private python(request: ResolvedRequest): string {
+    const headers = Object.entries(request.headers)
+      .map(([name, value]) => {
+        const [before, after] = value.split(ACCESS_TOKEN_PLACEHOLDER);
+        const rendered = after !== undefined
+          ? [before && `"${before}"`, `os.environ["${ACCESS_TOKEN_ENV}"]`, after && `"${after}"`].filter(Boolean).join(' + ')
+          : `"${value}"`;
+        return `    "${name}": ${rendered},`;
+      })
+      .join('\n');
+
+    const url = `${request.baseUrl}${request.path}`;
+    const args = ['    headers=headers,'];
+    if (Object.keys(request.queryParams).length > 0) {
+      args.push(`    params=${toPython(request.queryParams, '    ')},`);
+    }
+    if (request.body !== undefined) {
+      args.push(`    json=${toPython(request.body, '    ')},`);
+    }
+
+    return `import os
+import requests
+
+headers = {
+${headers}
+}
+
+response = requests.request(
+    "${request.method}",
+    "${url}",
+${args.join('\n')}
+)
+response.raise_for_status()
+print(response.json())`;
+  }
+}
+
+function indent(text: string, prefix: string): string {
+  return text.split('\n').join(`\n${prefix}`);
+}
+
+/**
+ * Render a JSON value as a Python literal (True/False/None instead of true/false/null)
+ */
+function toPython(value: unknown, prefix: string): string {
+  if (value === null || value === undefined) {
+    return 'None';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  }
+  if (typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  const inner = `${prefix}    `;
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '[]';
+    }
+    return `[\n${value.map(item => `${inner}${toPython(item, inner)},`).join('\n')}\n${prefix}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) {
+    return '{}';
+  }
+  return `{\n${entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${toPython(item, inner)},`).join('\n')}\n${prefix}}`;
+}
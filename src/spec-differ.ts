@@ -0,0 +1,341 @@
+import { OpenAPIParser, FortnoxEndpoint, Parameter, Schema } from './openapi-parser.js';
+import { SchemaRenderer } from './schema-renderer.js';
+
+export type SpecChangeKind =
+  | 'endpoint-added'
+  | 'endpoint-removed'
+  | 'endpoint-deprecated'
+  | 'endpoint-undeprecated'
+  | 'parameter-added'
+  | 'parameter-removed'
+  | 'parameter-required'
+  | 'parameter-optional'
+  | 'parameter-type-changed'
+  | 'request-body-added'
+  | 'request-body-removed'
+  | 'request-body-changed'
+  | 'response-added'
+  | 'response-removed'
+  | 'response-changed'
+  | 'schema-added'
+  | 'schema-removed'
+  | 'property-added'
+  | 'property-removed'
+  | 'property-required'
+  | 'property-optional'
+  | 'property-type-changed'
+  | 'enum-values-added'
+  | 'enum-values-removed'
+  | 'enum-added'
+  | 'enum-removed';
+
+export interface SpecChange {
+  kind: SpecChangeKind;
+  /** True when existing clients may stop working */
+  breaking: boolean;
+  /** Endpoint ("GET /3/customers") or schema property ("fortnox_Customer.Name") that changed */
+  location: string;
+  message: string;
+}
+
+export interface SpecDiff {
+  from: { title: string; version: string };
+  to: { title: string; version: string };
+  changes: SpecChange[];
+  summary: { total: number; breaking: number; nonBreaking: number };
+}
+
+/**
+ * Compares two OpenAPI specs and classifies every change as breaking or non-breaking
+ * Endpoints are matched on method and path, schemas on their components.schemas name.
+ */
+export class SpecDiffer {
+  private from: OpenAPIParser;
+  private to: OpenAPIParser;
+  private renderer: SchemaRenderer;
+  private changes: SpecChange[] = [];
+
+  constructor(from: OpenAPIParser, to: OpenAPIParser) {
+    this.from = from;
+    this.to = to;
+    this.renderer = new SchemaRenderer(to);
+  }
+
+  diff(): SpecDiff {
+    this.changes = [];
+    this.diffEndpoints();
+    this.diffSchemas();
+
+    const breaking = this.changes.filter(change => change.breaking).length;
+    const fromInfo = this.from.getSpec().info;
+    const toInfo = this.to.getSpec().info;
+
+    return {
+      from: { title: fromInfo.title, version: fromInfo.version },
+      to: { title: toInfo.title, version: toInfo.version },
+      changes: this.changes,
+      summary: {
+        total: this.changes.length,
+        breaking,
+        nonBreaking: this.changes.length - breaking,
+      },
+    };
+  }
+
+  private add(kind: SpecChangeKind, breaking: boolean, location: string, message: string): void {
+    this.changes.push({ kind, breaking, location, message });
+  }
+
+  private diffEndpoints(): void {
+    const before = indexEndpoints(this.from.getAllEndpoints());
+    const after = indexEndpoints(this.to.getAllEndpoints());
+
+    for (const [key, endpoint] of before) {
+      if (!after.has(key)) {
+        this.add('endpoint-removed', true, key, `Endpoint removed${endpoint.summary ? `: ${endpoint.summary}` : ''}`);
+      }
+    }
+
+    for (const [key, endpoint] of after) {
+      const previous = before.get(key);
+      if (!previous) {
+        this.add('endpoint-added', false, key, `Endpoint added${endpoint.summary ? `: ${endpoint.summary}` : ''}`);
+        continue;
+      }
+
+      if (endpoint.deprecated && !previous.deprecated) {
+        this.add('endpoint-deprecated', false, key, 'Endpoint is now deprecated');
+      } else if (!endpoint.deprecated && previous.deprecated) {
+        this.add('endpoint-undeprecated', false, key, 'Endpoint is no longer deprecated');
+      }
+
+      this.diffParameters(key, previous.parameters, endpoint.parameters);
+      this.diffBodies(key, previous, endpoint);
+    }
+  }
+
+  private diffParameters(location: string, before: Parameter[], after: Parameter[]): void {
+    const parameterKey = (parameter: Parameter) => `${parameter.in}:${parameter.name}`;
+    const previous = new Map(before.map(parameter => [parameterKey(parameter), parameter]));
+    const current = new Map(after.map(parameter => [parameterKey(parameter), parameter]));
+
+    for (const [key, parameter] of previous) {
+      if (!current.has(key)) {
+        this.add('parameter-removed', true, location, `${parameter.in} parameter "${parameter.name}" removed`);
+      }
+    }
+
+    for (const [key, parameter] of current) {
+      const old = previous.get(key);
+      if (!old) {
+        this.add(
+          'parameter-added',
+          Boolean(parameter.required),
+          location,
+          `${parameter.required ? 'Required' : 'Optional'} ${parameter.in} parameter "${parameter.name}" added`
+        );
+        continue;
+      }
+
+      if (parameter.required && !old.required) {
+        this.add('parameter-required', true, location, `${parameter.in} parameter "${parameter.name}" is now required`);
+      } else if (!parameter.required && old.required) {
+        this.add('parameter-optional', false, location, `${parameter.in} parameter "${parameter.name}" is now optional`);
+      }
+
+      const oldType = this.renderer.formatType(old.schema || {});
+      const newType = this.renderer.formatType(parameter.schema || {});
+      if (oldType !== newType) {
+        this.add('parameter-type-changed', true, location, `${parameter.in} parameter "${parameter.name}" changed type from ${oldType} to ${newType}`);
+      }
+
+      this.diffEnum(`${location} ${parameter.in} parameter "${parameter.name}"`, old.schema, parameter.schema);
+    }
+  }
+
+  private diffBodies(location: string, before: FortnoxEndpoint, after: FortnoxEndpoint): void {
+    const bodies: Array<['request-body' | 'response', Schema | undefined, Schema | undefined]> = [
+      ['request-body', before.requestBodySchema, after.requestBodySchema],
+      ['response', before.responseSchema, after.responseSchema],
+    ];
+
+    for (const [part, old, current] of bodies) {
+      const label = part === 'request-body' ? 'Request body' : 'Response body';
+
+      if (old && !current) {
+        this.add(`${part}-removed`, true, location, `${label} removed`);
+      } else if (!old && current) {
+        // A new request body has to be sent by existing clients; a new response body is harmless
+        this.add(`${part}-added`, part === 'request-body', location, `${label} added (${this.renderer.formatType(current)})`);
+      } else if (old && current) {
+        const oldType = this.renderer.formatType(old);
+        const newType = this.renderer.formatType(current);
+        if (oldType !== newType) {
+          this.add(`${part}-changed`, true, location, `${label} changed from ${oldType} to ${newType}`);
+        } else if (!old.$ref) {
+          // Inline bodies have no schema of their own to compare, so compare them here
+          this.diffProperties(`${location} ${label.toLowerCase()}`, old, current);
+        }
+      }
+    }
+  }
+
+  private diffSchemas(): void {
+    const before = this.from.getSpec().components?.schemas || {};
+    const after = this.to.getSpec().components?.schemas || {};
+
+    for (const name of Object.keys(before)) {
+      if (!after[name]) {
+        this.add('schema-removed', true, name, 'Schema removed');
+      }
+    }
+
+    for (const [name, schema] of Object.entries(after)) {
+      const previous = before[name];
+      if (!previous) {
+        this.add('schema-added', false, name, 'Schema added');
+        continue;
+      }
+
+      const oldType = this.renderer.formatType(previous);
+      const newType = this.renderer.formatType(schema);
+      if (oldType !== newType) {
+        this.add('property-type-changed', true, name, `Schema type changed from ${oldType} to ${newType}`);
+      }
+      this.diffEnum(name, previous, schema);
+      this.diffProperties(name, previous, schema);
+    }
+  }
+
+  /**
+   * Compare the properties of two versions of an object schema, descending into inline
+   * objects and array items; properties that are $refs are compared by their own schema
+   */
+  private diffProperties(location: string, before: Schema, after: Schema): void {
+    const oldTarget = before.type === 'array' && before.items ? before.items : before;
+    const newTarget = after.type === 'array' && after.items ? after.items : after;
+    const oldProperties = oldTarget.properties || {};
+    const newProperties = newTarget.properties || {};
+    const oldRequired = new Set(oldTarget.required || []);
+    const newRequired = new Set(newTarget.required || []);
+
+    for (const name of Object.keys(oldProperties)) {
+      if (!newProperties[name]) {
+        this.add('property-removed', true, `${location}.${name}`, 'Property removed');
+      }
+    }
+
+    for (const [name, property] of Object.entries(newProperties)) {
+      const path = `${location}.${name}`;
+      const previous = oldProperties[name];
+
+      if (!previous) {
+        const required = newRequired.has(name);
+        this.add(
+          'property-added',
+          required,
+          path,
+          `${required ? 'Required' : 'Optional'} property added (${this.renderer.formatType(property)})`
+        );
+        continue;
+      }
+
+      if (newRequired.has(name) && !oldRequired.has(name)) {
+        this.add('property-required', true, path, 'Property is now required');
+      } else if (!newRequired.has(name) && oldRequired.has(name)) {
+        this.add('property-optional', false, path, 'Property is now optional');
+      }
+
+      const oldType = this.renderer.formatType(previous);
+      const newType = this.renderer.formatType(property);
+      if (oldType !== newType) {
+        this.add('property-type-changed', true, path, `Type changed from ${oldType} to ${newType}`);
+        continue;
+      }
+
+      this.diffEnum(path, previous, property);
+
+      const nested = property.type === 'array' ? property.items : property;
+      if (nested && !nested.$ref && nested.properties) {
+        this.diffProperties(property.type === 'array' ? `${path}[]` : path, previous, property);
+      }
+    }
+  }
+
+  private diffEnum(location: string, before: Schema | undefined, after: Schema | undefined): void {
+    const oldValues = before?.enum || before?.items?.enum;
+    const newValues = after?.enum || after?.items?.enum;
+    if (!oldValues && !newValues) {
+      return;
+    }
+
+    if (!newValues) {
+      this.add('enum-removed', false, location, `Enum restriction removed (was ${formatValues(oldValues!)})`);
+      return;
+    }
+    if (!oldValues) {
+      this.add('enum-added', true, location, `Values restricted to ${formatValues(newValues)}`);
+      return;
+    }
+
+    const removed = oldValues.filter(value => !newValues.includes(value));
+    const added = newValues.filter(value => !oldValues.includes(value));
+    if (removed.length > 0) {
+      this.add('enum-values-removed', true, location, `Enum values removed: ${formatValues(removed)}`);
+    }
+    if (added.length > 0) {
+      this.add('enum-values-added', false, location, `Enum values added: ${formatValues(added)}`);
+    }
+  }
+}
+
+/**
+ * Render a spec diff as a markdown report, breaking changes first
+ */
+export function renderSpecDiffMarkdown(diff: SpecDiff, options?: { breakingOnly?: boolean }): string {
+  const lines: string[] = [
+    '# OpenAPI Spec Diff',
+    '',
+    `**From**: ${diff.from.title} ${diff.from.version}`.trimEnd(),
+    `**To**: ${diff.to.title} ${diff.to.version}`.trimEnd(),
+    '',
+    `**${diff.summary.total}** change(s): **${diff.summary.breaking}** breaking, **${diff.summary.nonBreaking}** non-breaking`,
+    '',
+  ];
+
+  if (diff.summary.total === 0) {
+    lines.push('No differences found.');
+    return lines.join('\n');
+  }
+
+  const sections: Array<[string, SpecChange[]]> = [
+    ['Breaking Changes', diff.changes.filter(change => change.breaking)],
+  ];
+  if (!options?.breakingOnly) {
+    sections.push(['Non-breaking Changes', diff.changes.filter(change => !change.breaking)]);
+  }
+
+  for (const [title, changes] of sections) {
+    lines.push(`## ${title}`, '');
+    if (changes.length === 0) {
+      lines.push('_None_', '');
+      continue;
+    }
+    lines.push('| Change | Location | Details |');
+    lines.push('|--------|----------|---------|');
+    for (const change of changes) {
+      lines.push(`| ${change.kind} | \`${change.location}\` | ${change.message.replace(/\|/g, '\\|')} |`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+function indexEndpoints(endpoints: FortnoxEndpoint[]): Map<string, FortnoxEndpoint> {
+  return new Map(endpoints.map(endpoint => [`${endpoint.method} ${endpoint.path}`, endpoint]));
+}
+
+function formatValues(values: unknown[]): string {
+  return values.map(value => JSON.stringify(value)).join(', ');
+}
@@ -0,0 +1,210 @@
+import { existsSync, readdirSync, statSync, watch, FSWatcher } from 'fs';
+import { basename, dirname, extname, join, resolve } from 'path';
+import { loadConfig, readDataFile, SpecSource } from './config.js';
+import type { OpenAPISpec, PathItem } from './openapi-parser.js';
+
+const SPEC_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch'] as const;
+const RELOAD_DEBOUNCE_MS = 300;
+
+interface LoadedSpec {
+  file: string;
+  namespace?: string;
+  spec: OpenAPISpec;
+}
+
+/**
+ * Spec sources from FORTNOX_OPENAPI_SPEC or the config file, undefined when the
+ * bundled openapi.json should be used
+ * FORTNOX_OPENAPI_SPEC is a comma separated list of paths, optionally prefixed
+ * with a namespace: "./openapi.json,internal=./specs/internal.yaml"
+ */
+export function getSpecSources(): SpecSource[] | undefined {
+  const env = process.env.FORTNOX_OPENAPI_SPEC?.trim();
+  if (env) {
+    return env.split(',').filter(Boolean).map(entry => {
+      const separator = entry.indexOf('=');
+      return separator === -1
+        ? { path: resolve(entry.trim()) }
+        : { namespace: entry.slice(0, separator).trim(), path: resolve(entry.slice(separator + 1).trim()) };
+    });
+  }
+
+  const { specs } = loadConfig();
+  return specs && specs.length > 0 ? (specs as SpecSource[]) : undefined;
+}
+
+/**
+ * Whether configured specs should be reloaded when they change on disk
+ * FORTNOX_WATCH_SPECS overrides the config file; the bundled spec is never watched.
+ */
+export function isSpecWatchEnabled(): boolean {
+  if (!getSpecSources()) {
+    return false;
+  }
+  if (process.env.FORTNOX_WATCH_SPECS !== undefined) {
+    return process.env.FORTNOX_WATCH_SPECS !== 'false';
+  }
+  return loadConfig().watchSpecs !== false;
+}
+
+/**
+ * Read a single OpenAPI file (JSON or YAML)
+ */
+export function readSpecFile(filePath: string): OpenAPISpec {
+  const spec = readDataFile(filePath) as OpenAPISpec | undefined;
+  if (!spec || typeof spec !== 'object' || !spec.paths) {
+    throw new Error(`Not an OpenAPI spec (no "paths"): ${filePath}`);
+  }
+  return spec;
+}
+
+/**
+ * Load and merge every spec file of the given sources into one spec
+ */
+export function loadSpecs(sources: SpecSource[]): OpenAPISpec {
+  const loaded: LoadedSpec[] = [];
+
+  for (const source of sources) {
+    for (const file of resolveSpecFiles(source.path)) {
+      loaded.push({ file, namespace: source.namespace, spec: readSpecFile(file) });
+    }
+  }
+
+  if (loaded.length === 0) {
+    throw new Error(`No OpenAPI files found in: ${sources.map(source => source.path).join(', ')}`);
+  }
+
+  return mergeSpecs(loaded);
+}
+
+/**
+ * Call onChange (debounced) whenever a spec file of the sources is written, created or removed
+ * Directories are watched instead of the files, so editors that replace files on save still trigger a reload.
+ * Returns a function that stops watching.
+ */
+export function watchSpecSources(sources: SpecSource[], onChange: () => void): () => void {
+  const watched = new Map<string, (fileName: string) => boolean>();
+
+  for (const source of sources) {
+    const isDirectory = existsSync(source.path) && statSync(source.path).isDirectory();
+    const directory = isDirectory ? source.path : dirname(source.path);
+    const previous = watched.get(directory);
+    const matches = isDirectory
+      ? (fileName: string) => isSpecFile(fileName)
+      : (fileName: string) => fileName === basename(source.path);
+
+    watched.set(directory, previous
+      ? (fileName: string) => previous(fileName) || matches(fileName)
+      : matches);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const watchers: FSWatcher[] = [];
+
+  for (const [directory, matches] of watched) {
+    watchers.push(watch(directory, (_event, fileName) => {
+      if (fileName && !matches(fileName.toString())) {
+        return;
+      }
+      clearTimeout(timer);
+      timer = setTimeout(onChange, RELOAD_DEBOUNCE_MS);
+    }));
+  }
+
+  return () => {
+    clearTimeout(timer);
+    watchers.forEach(watcher => watcher.close());
+  };
+}
+
+function resolveSpecFiles(path: string): string[] {
+  if (!existsSync(path)) {
+    throw new Error(`OpenAPI spec not found: ${path}`);
+  }
+  if (!statSync(path).isDirectory()) {
+    return [path];
+  }
+  return readdirSync(path)
+    .filter(isSpecFile)
+    .sort()
+    .map(fileName => join(path, fileName));
+}
+
+function isSpecFile(fileName: string): boolean {
+  return SPEC_EXTENSIONS.includes(extname(fileName).toLowerCase());
+}
+
+/**
+ * Merge specs into the first one
+ * Schema names and tags of namespaced specs get a "<namespace>_" prefix (like the
+ * fortnox_ and bureau_ prefixes in the Fortnox spec), with $refs rewritten to match.
+ * Path items from a spec with another server than the first spec keep their own server.
+ */
+function mergeSpecs(specs: LoadedSpec[]): OpenAPISpec {
+  const [first] = specs;
+  if (specs.length === 1 && !first.namespace) {
+    return first.spec;
+  }
+
+  const merged: OpenAPISpec = {
+    openapi: first.spec.openapi,
+    info: first.spec.info,
+    servers: first.spec.servers,
+    paths: {},
+    components: { schemas: {} },
+  };
+  const baseUrl = first.spec.servers?.[0]?.url;
+
+  for (const { file, namespace, spec } of specs) {
+    const rename = (name: string) =>
+      namespace && !name.startsWith(`${namespace}_`) ? `${namespace}_${name}` : name;
+    const renamed = namespace ? renameSchemaRefs(spec, rename) : spec;
+    const servers = renamed.servers?.[0]?.url !== baseUrl ? renamed.servers : undefined;
+
+    for (const [name, schema] of Object.entries(renamed.components?.schemas || {})) {
+      const mergedName = rename(name);
+      if (merged.components.schemas[mergedName]) {
+        throw new Error(`Duplicate schema "${mergedName}" in ${file}; give the spec a namespace`);
+      }
+      merged.components.schemas[mergedName] = schema;
+    }
+
+    for (const [path, pathItem] of Object.entries(renamed.paths)) {
+      const target: PathItem = merged.paths[path] || {};
+
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (!operation) {
+          continue;
+        }
+        if (target[method]) {
+          throw new Error(`Duplicate operation ${method.toUpperCase()} ${path} in ${file}`);
+        }
+        target[method] = namespace
+          ? { ...operation, tags: (operation.tags || [namespace]).map(rename) }
+          : operation;
+      }
+
+      if (servers && servers.length > 0) {
+        target.servers = servers;
+      }
+      merged.paths[path] = target;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Deep copy of a spec with every "#/components/schemas/<name>" $ref renamed
+ */
+function renameSchemaRefs(spec: OpenAPISpec, rename: (name: string) => string): OpenAPISpec {
+  const prefix = '#/components/schemas/';
+
+  return JSON.parse(JSON.stringify(spec), (key, value) =>
+    key === '$ref' && typeof value === 'string' && value.startsWith(prefix)
+      ? `${prefix}${rename(value.slice(prefix.length))}`
+      : value
+  );
+}
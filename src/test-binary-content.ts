@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for the files upload_file may read from the upload directory
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resolveUploadPath } from './binary-content.js';
+
+/**
+ * An upload directory with invoice.pdf and scans/receipt.pdf, next to a secret.txt outside it
+ */
+function withUploadDir(run: (uploadDir: string, root: string) => void): void {
+  const root = realpathSync(mkdtempSync(join(tmpdir(), 'fortnox-upload-')));
+  const uploadDir = join(root, 'uploads');
+  mkdirSync(join(uploadDir, 'scans'), { recursive: true });
+  writeFileSync(join(uploadDir, 'invoice.pdf'), '%PDF-1.4');
+  writeFileSync(join(uploadDir, 'scans', 'receipt.pdf'), '%PDF-1.4');
+  writeFileSync(join(root, 'secret.txt'), 'secret');
+
+  try {
+    run(uploadDir, root);
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+test('files inside the upload directory are accepted', () => {
+  withUploadDir(uploadDir => {
+    assert.equal(resolveUploadPath('invoice.pdf', uploadDir), join(uploadDir, 'invoice.pdf'));
+    assert.equal(resolveUploadPath('scans/../scans/receipt.pdf', uploadDir), join(uploadDir, 'scans', 'receipt.pdf'));
+    assert.equal(resolveUploadPath(join(uploadDir, 'invoice.pdf'), uploadDir), join(uploadDir, 'invoice.pdf'));
+  });
+});
+
+test('paths that leave the upload directory are rejected', () => {
+  withUploadDir((uploadDir, root) => {
+    assert.throws(() => resolveUploadPath('../secret.txt', uploadDir), /outside the upload directory/);
+    assert.throws(() => resolveUploadPath('scans/../../secret.txt', uploadDir), /outside the upload directory/);
+    assert.throws(() => resolveUploadPath(join(root, 'secret.txt'), uploadDir), /outside the upload directory/);
+    assert.throws(() => resolveUploadPath('/etc/passwd', uploadDir), /outside the upload directory/);
+    assert.throws(() => resolveUploadPath('.', uploadDir), /outside the upload directory/);
+  });
+});
+
+test('symlinks out of the upload directory are rejected', () => {
+  withUploadDir((uploadDir, root) => {
+    symlinkSync(join(root, 'secret.txt'), join(uploadDir, 'link.txt'));
+    symlinkSync(root, join(uploadDir, 'parent'));
+
+    assert.throws(() => resolveUploadPath('link.txt', uploadDir), /outside the upload directory/);
+    assert.throws(() => resolveUploadPath('parent/secret.txt', uploadDir), /outside the upload directory/);
+  });
+});
+
+test('missing files and directories are reported', () => {
+  withUploadDir((uploadDir, root) => {
+    assert.throws(() => resolveUploadPath('missing.pdf', uploadDir), /File not found in the upload directory: missing.pdf/);
+    assert.throws(() => resolveUploadPath('invoice.pdf', join(root, 'nowhere')), /Upload directory not found/);
+  });
+});
@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for recording API traffic to a cassette and replaying it without network access
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { Cassette, parseMatchFields } from './cassette.js';
+import { FortnoxAPIClient } from './fortnox-client.js';
+import { FortnoxOAuth } from './oauth.js';
+import { BinaryContent } from './binary-content.js';
+
+const PDF = Buffer.from([0x25, 0x50, 0x44, 0x46, 0x00, 0xff, 0xfe, 0x0a]);
+
+/**
+ * Record requests against a local server into a fresh cassette file
+ */
+async function recordCassette(run: (client: FortnoxAPIClient) => Promise<void>): Promise<{ file: string; baseUrl: string }> {
+  let counter = 0;
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    if (req.url === '/3/unauthorized') {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ message: 'Unauthorized' }));
+      return;
+    }
+    if (req.url?.startsWith('/3/archive')) {
+      res.writeHead(200, { 'Content-Type': 'application/pdf' });
+      res.end(PDF);
+      return;
+    }
+    counter++;
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Set-Cookie': 'session=abc' });
+    res.end(JSON.stringify({ url: req.url, counter }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const file = join(mkdtempSync(join(tmpdir(), 'fortnox-cassette-')), 'cassette.json');
+
+  try {
+    const cassette = new Cassette({ file, mode: 'record' });
+    await run(new FortnoxAPIClient({ accessToken: 'secret-token', baseUrl, rateLimits: false, cassette }));
+  } finally {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+  return { file, baseUrl };
+}
+
+function replayClient(file: string, baseUrl: string, matchOn?: Cassette['matchOn']): FortnoxAPIClient {
+  const cassette = new Cassette({ file, mode: 'replay', matchOn });
+  return new FortnoxAPIClient({ accessToken: 'other-token', baseUrl, rateLimits: false, retry: false, cassette });
+}
+
+test('replays recorded responses after the server is gone', async () => {
+  const { file, baseUrl } = await recordCassette(async client => {
+    await client.request('/3/customers', 'GET', { queryParams: { page: 1 } });
+  });
+
+  try {
+    const response = await replayClient(file, baseUrl).request('/3/customers', 'GET', { queryParams: { page: 1 } });
+    assert.equal(response.success, true);
+    assert.deepEqual(response.data, { url: '/3/customers?page=1', counter: 1 });
+  } finally {
+    rmSync(dirname(file), { recursive: true, force: true });
+  }
+});
+
+test('identical requests replay in recorded order, then repeat the last', async () => {
+  const { file, baseUrl } = await recordCassette(async client => {
+    await client.request('/3/customers', 'GET');
+    await client.request('/3/customers', 'GET');
+  });
+
+  try {
+    const client = replayClient(file, baseUrl);
+    const counters = [];
+    for (let i = 0; i < 3; i++) {
+      counters.push(((await client.request('/3/customers', 'GET')).data as { counter: number }).counter);
+    }
+    assert.deepEqual(counters, [1, 2, 2]);
+  } finally {
+    rmSync(dirname(file), { recursive: true, force: true });
+  }
+});
+
+test('secrets in headers are not written to the cassette', async () => {
+  const { file } = await recordCassette(async client => {
+    await client.request('/3/customers', 'GET');
+  });
+
+  try {
+    const content = readFileSync(file, 'utf-8');
+    assert.ok(!content.includes('secret-token'));
+    assert.ok(!content.includes('session=abc'));
+    const [entry] = JSON.parse(content).entries;
+    assert.equal(entry.request.headers.authorization, 'Bearer <redacted>');
+    assert.equal(entry.response.headers['set-cookie'], '<redacted>');
+  } finally {
+    rmSync(dirname(file), { recursive: true, force: true });
+  }
+});
+
+test('binary responses survive the round trip byte for byte', async () => {
+  const { file, baseUrl } = await recordCassette(async client => {
+    await client.request('/3/archive/1', 'GET');
+  });
+
+  try {
+    const response = await replayClient(file, baseUrl).request('/3/archive/1', 'GET');
+    assert.equal(response.success, true);
+    assert.deepEqual((response.data as BinaryContent).bytes, PDF);
+  } finally {
+    rmSync(dirname(file), { recursive: true, force: true });
+  }
+});
+
+test('a request missing from the cassette names what was recorded', async () => {
+  const { file, baseUrl } = await recordCassette(async client => {
+    await client.request('/3/customers', 'GET', { queryParams: { page: 1 } });
+  });
+
+  try {
+    const response = await replayClient(file, baseUrl).request('/3/customers', 'GET', { queryParams: { page: 2 } });
+    assert.equal(response.success, false);
+    assert.match(response.error?.message || '', /No recorded response .* for GET \/3\/customers\?page=2/);
+    assert.match(response.error?.message || '', /recorded for this path: GET \/3\/customers\?page=1/);
+
+    const ignoringQuery = await replayClient(file, baseUrl, ['method', 'path']).request('/3/customers', 'GET', { queryParams: { page: 2 } });
+    assert.equal(ignoringQuery.success, true);
+  } finally {
+    rmSync(dirname(file), { recursive: true, force: true });
+  }
+});
+
+test('replay never asks the token endpoint for a token', async () => {
+  const { file, baseUrl } = await recordCassette(async client => {
+    await client.request('/3/customers', 'GET');
+    await client.request('/3/unauthorized', 'GET');
+  });
+
+  try {
+    // Nothing listens on the token endpoint, so any refresh would fail the request
+    const oauth = new FortnoxOAuth(
+      { clientId: 'client', clientSecret: 'secret', tokenUrl: 'http://127.0.0.1:1/oauth-v1/token', tokenFile: false },
+      { accessToken: 'expired', refreshToken: 'refresh', expiresAt: Date.now() - 60_000 }
+    );
+    const cassette = new Cassette({ file, mode: 'replay' });
+    const client = new FortnoxAPIClient({ oauth, baseUrl, rateLimits: false, retry: false, cassette });
+
+    const response = await client.request('/3/customers', 'GET');
+    assert.equal(response.success, true);
+
+    const unauthorized = await client.request('/3/unauthorized', 'GET');
+    assert.equal(unauthorized.error?.code, 401);
+    assert.doesNotMatch(unauthorized.error?.message || '', /token request failed/);
+  } finally {
+    rmSync(dirname(file), { recursive: true, force: true });
+  }
+});
+
+test('parses match fields', () => {
+  assert.deepEqual(parseMatchFields('Method, path,body'), ['method', 'path', 'body']);
+  assert.throws(() => parseMatchFields('method,headers'), /Unknown cassette match field: headers/);
+});
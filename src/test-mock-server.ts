@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for the mock server, called through the API client like a live Fortnox API
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getOpenAPIParser } from './openapi-parser.js';
+import { FortnoxMockServer } from './mock-server.js';
+import { FortnoxAPIClient } from './fortnox-client.js';
+
+const parser = getOpenAPIParser();
+
+async function withMockServer(stateful: boolean, run: (client: FortnoxAPIClient, baseUrl: string) => Promise<void>): Promise<void> {
+  const server = new FortnoxMockServer(parser, { host: '127.0.0.1', port: 0, stateful });
+  await server.start();
+
+  try {
+    await run(new FortnoxAPIClient({ accessToken: 'mock-token', baseUrl: server.url, rateLimits: false, retry: false }), server.url);
+  } finally {
+    await server.close();
+  }
+}
+
+test('answers documented endpoints with an example response', async () => {
+  await withMockServer(false, async client => {
+    const response = await client.request('/3/customers/1', 'GET');
+    assert.equal(response.success, true);
+    assert.ok((response.data as { Customer?: unknown }).Customer);
+  });
+});
+
+test('rejects unknown paths, wrong methods and missing credentials like the API', async () => {
+  await withMockServer(false, async (client, baseUrl) => {
+    const unknown = await client.request('/3/nothing-here', 'GET');
+    assert.equal(unknown.error?.code, 404);
+
+    const wrongMethod = await fetch(`${baseUrl}/3/customers`, { method: 'PATCH', headers: { Authorization: 'Bearer mock-token' } });
+    assert.equal(wrongMethod.status, 405);
+
+    const anonymous = await fetch(`${baseUrl}/3/customers`);
+    assert.equal(anonymous.status, 401);
+    assert.equal(((await anonymous.json()) as { ErrorInformation: { Message: string } }).ErrorInformation.Message, 'Missing Authorization header');
+  });
+});
+
+test('rejects bodies that do not match the request schema', async () => {
+  await withMockServer(false, async (_client, baseUrl) => {
+    const response = await fetch(`${baseUrl}/3/customers`, {
+      method: 'POST',
+      headers: { 'Authorization': 'Bearer mock-token', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ Customer: { Name: 42 } }),
+    });
+    assert.equal(response.status, 400);
+    assert.ok(((await response.json()) as { ErrorInformation?: unknown }).ErrorInformation);
+  });
+});
+
+test('stateful mode keeps created records until they are deleted', async () => {
+  await withMockServer(true, async client => {
+    const created = await client.request('/3/customers', 'POST', { body: { Customer: { Name: 'Acme AB' } } });
+    assert.equal(created.success, true);
+    const { CustomerNumber } = (created.data as { Customer: { CustomerNumber: string } }).Customer;
+
+    const read = await client.request(`/3/customers/${CustomerNumber}`, 'GET');
+    assert.equal((read.data as { Customer: { Name: string } }).Customer.Name, 'Acme AB');
+
+    await client.request(`/3/customers/${CustomerNumber}`, 'PUT', { body: { Customer: { Name: 'Acme Holding AB' } } });
+    const list = await client.request('/3/customers', 'GET');
+    assert.deepEqual((list.data as { Customers: Array<{ Name: string }> }).Customers.map(customer => customer.Name), ['Acme Holding AB']);
+
+    await client.request(`/3/customers/${CustomerNumber}`, 'DELETE');
+    const deleted = await client.request(`/3/customers/${CustomerNumber}`, 'GET');
+    assert.equal(deleted.error?.code, 404);
+  });
+});
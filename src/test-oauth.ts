@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for refreshing OAuth tokens when the API rejects the access token
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { FortnoxOAuth } from './oauth.js';
+import { FortnoxAPIClient } from './fortnox-client.js';
+
+interface TokenServer {
+  baseUrl: string;
+  /** Access token the API accepts */
+  validToken: string;
+  refreshTokens: string[];
+  apiTokens: string[];
+}
+
+/**
+ * A token endpoint that hands out access-N and refresh-N, and an API that only accepts validToken
+ */
+async function withTokenServer(run: (server: TokenServer) => Promise<void>): Promise<void> {
+  let issued = 0;
+  const state: TokenServer = { baseUrl: '', validToken: 'access-1', refreshTokens: [], apiTokens: [] };
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      res.setHeader('Content-Type', 'application/json');
+      if (req.url === '/oauth-v1/token') {
+        state.refreshTokens.push(new URLSearchParams(body).get('refresh_token') || '');
+        issued++;
+        res.end(JSON.stringify({ access_token: `access-${issued}`, refresh_token: `refresh-${issued}`, expires_in: 3600 }));
+        return;
+      }
+
+      const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+      state.apiTokens.push(token);
+      res.statusCode = token === state.validToken ? 200 : 401;
+      res.end(JSON.stringify(token === state.validToken ? { ok: true } : { message: 'Unauthorized' }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  state.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    await run(state);
+  } finally {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+}
+
+function createClient(server: TokenServer): { client: FortnoxAPIClient; oauth: FortnoxOAuth } {
+  const oauth = new FortnoxOAuth(
+    { clientId: 'client', clientSecret: 'secret', tokenUrl: `${server.baseUrl}/oauth-v1/token`, tokenFile: false },
+    { accessToken: 'revoked', refreshToken: 'refresh-0' }
+  );
+  return { client: new FortnoxAPIClient({ oauth, baseUrl: server.baseUrl, rateLimits: false, retry: false }), oauth };
+}
+
+test('a 401 refreshes the access token and repeats the request', async () => {
+  await withTokenServer(async server => {
+    const { client, oauth } = createClient(server);
+    const response = await client.request('/3/customers', 'GET');
+
+    assert.equal(response.success, true);
+    assert.deepEqual(server.apiTokens, ['revoked', 'access-1']);
+    assert.deepEqual(server.refreshTokens, ['refresh-0']);
+    assert.equal(await oauth.getAccessToken(), 'access-1');
+  });
+});
+
+test('a request is repeated only once when the new token is rejected too', async () => {
+  await withTokenServer(async server => {
+    server.validToken = 'never';
+    const { client } = createClient(server);
+    const response = await client.request('/3/customers', 'GET');
+
+    assert.equal(response.success, false);
+    assert.equal(response.error?.code, 401);
+    assert.deepEqual(server.apiTokens, ['revoked', 'access-1']);
+    assert.equal(server.refreshTokens.length, 1);
+  });
+});
+
+test('concurrent requests share one refresh', async () => {
+  await withTokenServer(async server => {
+    const { client } = createClient(server);
+    const responses = await Promise.all([0, 1, 2].map(() => client.request('/3/customers', 'GET')));
+
+    assert.ok(responses.every(response => response.success));
+    assert.deepEqual(server.refreshTokens, ['refresh-0']);
+  });
+});
+
+test('a refresh without a refresh token explains why the request failed', async () => {
+  await withTokenServer(async server => {
+    const oauth = new FortnoxOAuth({ clientId: 'client', clientSecret: 'secret', tokenFile: false }, { accessToken: 'revoked' });
+    const client = new FortnoxAPIClient({ oauth, baseUrl: server.baseUrl, rateLimits: false, retry: false });
+    const response = await client.request('/3/customers', 'GET');
+
+    assert.equal(response.error?.code, 401);
+    assert.match(response.error?.message || '', /no refresh token available/);
+    assert.deepEqual(server.refreshTokens, []);
+  });
+});
@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for the default profile built from FORTNOX_* environment variables
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ProfileRegistry } from './profiles.js';
+
+const AUTH_VARIABLES = ['FORTNOX_ACCESS_TOKEN', 'FORTNOX_CLIENT_ID', 'FORTNOX_CLIENT_SECRET', 'FORTNOX_REFRESH_TOKEN', 'FORTNOX_TOKEN_FILE', 'FORTNOX_PROFILE'];
+
+/**
+ * The default profile for the given variables, with an empty token file
+ */
+function defaultProfile(env: Record<string, string>) {
+  const previous = { ...process.env };
+  const directory = mkdtempSync(join(tmpdir(), 'fortnox-profiles-'));
+  AUTH_VARIABLES.forEach(name => delete process.env[name]);
+  Object.assign(process.env, { FORTNOX_TOKEN_FILE: join(directory, 'tokens.json') }, env);
+
+  try {
+    return new ProfileRegistry({}).get();
+  } finally {
+    process.env = previous;
+    rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+test('an access token makes an access-token profile', () => {
+  const profile = defaultProfile({ FORTNOX_ACCESS_TOKEN: 'token' });
+  assert.equal(profile.auth, 'access-token');
+  assert.ok(profile.client);
+});
+
+test('a client id without its secret falls back to the access token', () => {
+  const profile = defaultProfile({ FORTNOX_CLIENT_ID: 'client', FORTNOX_ACCESS_TOKEN: 'token' });
+  assert.equal(profile.auth, 'access-token');
+  assert.equal(profile.oauth, undefined);
+  assert.ok(profile.client);
+});
+
+test('a client id without its secret or a token says the secret is missing', () => {
+  const profile = defaultProfile({ FORTNOX_CLIENT_ID: 'client' });
+  assert.equal(profile.auth, 'oauth');
+  assert.equal(profile.client, null);
+  assert.match(profile.unavailable || '', /FORTNOX_CLIENT_SECRET/);
+});
+
+test('an OAuth client without tokens asks for auth-exchange', () => {
+  const profile = defaultProfile({ FORTNOX_CLIENT_ID: 'client', FORTNOX_CLIENT_SECRET: 'secret' });
+  assert.equal(profile.auth, 'oauth');
+  assert.ok(profile.oauth);
+  assert.equal(profile.client, null);
+  assert.match(profile.unavailable || '', /auth-exchange/);
+});
+
+test('an OAuth client with a refresh token can make calls', () => {
+  const profile = defaultProfile({ FORTNOX_CLIENT_ID: 'client', FORTNOX_CLIENT_SECRET: 'secret', FORTNOX_REFRESH_TOKEN: 'refresh' });
+  assert.equal(profile.auth, 'oauth');
+  assert.ok(profile.client);
+});
@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for the token bucket rate limiter, driven by a fake clock
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter, Clock, parseRateLimits } from './rate-limiter.js';
+
+/**
+ * A clock whose sleep returns at once and moves time forward
+ */
+class FakeClock implements Clock {
+  time = 0;
+  sleeps: number[] = [];
+
+  now(): number {
+    return this.time;
+  }
+
+  async sleep(ms: number): Promise<void> {
+    this.sleeps.push(ms);
+    this.time += ms;
+  }
+}
+
+test('calls within the limit do not wait', async () => {
+  const clock = new FakeClock();
+  const limiter = new RateLimiter({ windows: [{ limit: 3, intervalMs: 3_000 }], clock });
+
+  for (let i = 0; i < 3; i++) {
+    assert.deepEqual(await limiter.acquire('token'), { queueDepth: 0, waitMs: 0 });
+  }
+  assert.deepEqual(clock.sleeps, []);
+});
+
+test('a call over the limit waits for a token to refill', async () => {
+  const clock = new FakeClock();
+  const limiter = new RateLimiter({ windows: [{ limit: 2, intervalMs: 2_000 }], clock });
+
+  await limiter.acquire('token');
+  await limiter.acquire('token');
+  const metadata = await limiter.acquire('token');
+
+  assert.equal(metadata.waitMs, 1_000);
+  assert.equal(clock.now(), 1_000);
+});
+
+test('tokens refill with time', async () => {
+  const clock = new FakeClock();
+  const limiter = new RateLimiter({ windows: [{ limit: 2, intervalMs: 2_000 }], clock });
+
+  await limiter.acquire('token');
+  await limiter.acquire('token');
+  clock.time += 2_000;
+
+  assert.equal((await limiter.acquire('token')).waitMs, 0);
+  assert.equal((await limiter.acquire('token')).waitMs, 0);
+});
+
+test('the strictest window decides the wait', async () => {
+  const clock = new FakeClock();
+  const limiter = new RateLimiter({
+    windows: [{ limit: 2, intervalMs: 1_000 }, { limit: 3, intervalMs: 60_000 }],
+    clock,
+  });
+
+  for (let i = 0; i < 3; i++) {
+    await limiter.acquire('token');
+  }
+  // The minute window only has a token again 20 seconds in, long after the short window refilled;
+  // waits are rounded up to whole milliseconds
+  await limiter.acquire('token');
+  assert.ok(clock.now() >= 20_000 && clock.now() <= 20_001, `done at ${clock.now()}ms`);
+});
+
+test('queued calls go in order and report the calls ahead of them', async () => {
+  const clock = new FakeClock();
+  const limiter = new RateLimiter({ windows: [{ limit: 1, intervalMs: 1_000 }], clock });
+  const order: number[] = [];
+
+  const calls = [0, 1, 2].map(i => limiter.acquire('token').then(metadata => {
+    order.push(i);
+    return metadata;
+  }));
+  assert.equal(limiter.getQueueDepth('token'), 3);
+
+  const results = await Promise.all(calls);
+  assert.deepEqual(order, [0, 1, 2]);
+  assert.deepEqual(results.map(result => result.queueDepth), [0, 1, 2]);
+  assert.equal(clock.now(), 2_000);
+  assert.equal(limiter.getQueueDepth('token'), 0);
+});
+
+test('every key has its own buckets', async () => {
+  const clock = new FakeClock();
+  const limiter = new RateLimiter({ windows: [{ limit: 1, intervalMs: 1_000 }], clock });
+
+  await limiter.acquire('first');
+  assert.equal((await limiter.acquire('second')).waitMs, 0);
+  assert.deepEqual(clock.sleeps, []);
+});
+
+test('parses rate limit settings', () => {
+  assert.deepEqual(parseRateLimits('25/5s,300/1m'), [
+    { limit: 25, intervalMs: 5_000 },
+    { limit: 300, intervalMs: 60_000 },
+  ]);
+  assert.deepEqual(parseRateLimits('10/s'), [{ limit: 10, intervalMs: 1_000 }]);
+  assert.equal(parseRateLimits('off'), false);
+  assert.throws(() => parseRateLimits('0/5s'), /Invalid rate limit "0\/5s"/);
+  assert.throws(() => parseRateLimits('fast'), /Invalid rate limit "fast"/);
+});
@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for validating request bodies against their schemas
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OpenAPIParser, Schema } from './openapi-parser.js';
+import { RequestValidator, ValidationError } from './request-validator.js';
+
+const validator = new RequestValidator(new OpenAPIParser({
+  openapi: '3.0.1',
+  info: { title: 'Test', description: '', version: '1' },
+  servers: [],
+  paths: {},
+  components: { schemas: {} },
+}));
+
+const customer: Schema = {
+  type: 'object',
+  required: ['Name'],
+  properties: { Name: { type: 'string', maxLength: 10 }, Active: { type: 'boolean' } },
+  additionalProperties: false,
+};
+
+function validate(body: unknown, schema: Schema = customer): ValidationError[] {
+  const errors: ValidationError[] = [];
+  validator.validateValue(body, schema, '/body', errors);
+  return errors;
+}
+
+test('reports missing, mistyped and unknown properties with their pointers', () => {
+  assert.deepEqual(validate({ Name: 'Acme AB', Active: true }), []);
+  assert.deepEqual(validate({ Active: 'yes', Nickname: 'Acme' }).map(error => [error.pointer, error.keyword]), [
+    ['/body/Name', 'required'],
+    ['/body/Active', 'type'],
+    ['/body/Nickname', 'additionalProperties'],
+  ]);
+});
+
+test('keys named like Object.prototype members are unknown properties', () => {
+  const body = JSON.parse('{ "Name": "Acme AB", "constructor": 1, "toString": "x", "__proto__": {}, "hasOwnProperty": [] }');
+
+  assert.deepEqual(validate(body).map(error => error.message), [
+    'Unknown property constructor',
+    'Unknown property toString',
+    'Unknown property __proto__',
+    'Unknown property hasOwnProperty',
+  ]);
+});
+
+test('a required property named like an Object.prototype member must be present', () => {
+  const schema: Schema = { type: 'object', required: ['toString'], properties: { toString: { type: 'string' } } };
+
+  assert.deepEqual(validate({}, schema).map(error => error.message), ['Missing required property toString']);
+  assert.deepEqual(validate({ toString: 'x' }, schema), []);
+});
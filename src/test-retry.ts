@@ -0,0 +1,181 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for retry and backoff rules and the client's retries against a local server
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { DEFAULT_RETRY_OPTIONS, isIdempotent, isRetryableStatus, parseRetryAfter, retryDelay } from './retry.js';
+import { Clock } from './rate-limiter.js';
+import { FortnoxAPIClient, readClientSettings } from './fortnox-client.js';
+
+class FakeClock implements Clock {
+  time = 0;
+  sleeps: number[] = [];
+
+  now(): number {
+    return this.time;
+  }
+
+  async sleep(ms: number): Promise<void> {
+    this.sleeps.push(ms);
+    this.time += ms;
+  }
+}
+
+/**
+ * Answer requests with the given responses in turn, repeating the last one
+ */
+async function withServer(
+  responses: Array<{ status: number; headers?: Record<string, string>; body?: unknown }>,
+  run: (baseUrl: string, requests: IncomingMessage[]) => Promise<void>
+): Promise<void> {
+  const requests: IncomingMessage[] = [];
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const { status, headers, body } = responses[Math.min(requests.length, responses.length - 1)];
+    requests.push(req);
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body ?? {}));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests);
+  } finally {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+}
+
+function createClient(baseUrl: string, clock: Clock): FortnoxAPIClient {
+  return new FortnoxAPIClient({ accessToken: 'test-token', baseUrl, rateLimits: false, clock });
+}
+
+test('retries 429 and 5xx only', () => {
+  assert.equal(isRetryableStatus(429), true);
+  assert.equal(isRetryableStatus(503), true);
+  assert.equal(isRetryableStatus(400), false);
+  assert.equal(isRetryableStatus(404), false);
+});
+
+test('POST and PATCH are not idempotent', () => {
+  assert.equal(isIdempotent('get'), true);
+  assert.equal(isIdempotent('PUT'), true);
+  assert.equal(isIdempotent('DELETE'), true);
+  assert.equal(isIdempotent('POST'), false);
+  assert.equal(isIdempotent('PATCH'), false);
+});
+
+test('backoff doubles per retry with jitter of at most half the delay', () => {
+  for (let retry = 1; retry <= 4; retry++) {
+    const backoff = DEFAULT_RETRY_OPTIONS.baseDelayMs * 2 ** (retry - 1);
+    for (let i = 0; i < 50; i++) {
+      const delay = retryDelay(retry, DEFAULT_RETRY_OPTIONS);
+      assert.ok(delay >= backoff / 2 && delay <= backoff, `retry ${retry}: ${delay}ms`);
+    }
+  }
+});
+
+test('backoff is capped at maxDelayMs', () => {
+  const options = { ...DEFAULT_RETRY_OPTIONS, maxDelayMs: 1_000 };
+  assert.ok(retryDelay(10, options) <= 1_000);
+});
+
+test('Retry-After replaces the backoff, up to maxDelayMs', () => {
+  assert.equal(retryDelay(1, DEFAULT_RETRY_OPTIONS, 7_000), 7_000);
+  assert.equal(retryDelay(1, DEFAULT_RETRY_OPTIONS, 120_000), DEFAULT_RETRY_OPTIONS.maxDelayMs);
+});
+
+test('parses Retry-After in seconds or as an HTTP date', () => {
+  const now = Date.parse('2024-01-15T09:30:00Z');
+  assert.equal(parseRetryAfter('3', now), 3_000);
+  assert.equal(parseRetryAfter('Mon, 15 Jan 2024 09:30:10 GMT', now), 10_000);
+  assert.equal(parseRetryAfter('Mon, 15 Jan 2024 09:29:00 GMT', now), 0);
+  assert.equal(parseRetryAfter('soon', now), undefined);
+  assert.equal(parseRetryAfter(null, now), undefined);
+});
+
+test('the client retries a 503 after the Retry-After delay', async () => {
+  await withServer([
+    { status: 503, headers: { 'Retry-After': '2' } },
+    { status: 503, headers: { 'Retry-After': '1' } },
+    { status: 200, body: { ok: true } },
+  ], async (baseUrl, requests) => {
+    const clock = new FakeClock();
+    const response = await createClient(baseUrl, clock).request('/test/flaky', 'GET');
+
+    assert.equal(response.success, true);
+    assert.deepEqual(response.data, { ok: true });
+    assert.equal(requests.length, 3);
+    assert.deepEqual(clock.sleeps, [2_000, 1_000]);
+  });
+});
+
+test('the client gives up after maxRetries and lists every attempt', async () => {
+  await withServer([{ status: 500 }], async (baseUrl, requests) => {
+    const clock = new FakeClock();
+    const client = createClient(baseUrl, clock);
+    const response = await client.request('/test/broken', 'GET', { retry: { maxRetries: 2 } });
+
+    assert.equal(response.success, false);
+    assert.equal(requests.length, 3);
+    assert.equal(clock.sleeps.length, 2);
+    const { attempts } = response.error?.details as { attempts: Array<{ attempt: number; status: number }> };
+    assert.deepEqual(attempts.map(attempt => [attempt.attempt, attempt.status]), [[1, 500], [2, 500], [3, 500]]);
+  });
+});
+
+test('the client does not retry POST unless asked to', async () => {
+  await withServer([{ status: 503 }, { status: 201, body: { created: true } }], async (baseUrl, requests) => {
+    const clock = new FakeClock();
+    const client = createClient(baseUrl, clock);
+
+    assert.equal((await client.request('/test/create', 'POST', { body: {} })).success, false);
+    assert.equal(requests.length, 1);
+
+    const retried = await client.request('/test/create', 'POST', { body: {}, retry: { retryNonIdempotent: true } });
+    assert.equal(retried.success, true);
+    assert.equal(requests.length, 2);
+  });
+});
+
+test('a request cannot turn retries back on for a client without retries', async () => {
+  await withServer([{ status: 503 }, { status: 200 }], async (baseUrl, requests) => {
+    const client = new FortnoxAPIClient({ accessToken: 'test-token', baseUrl, rateLimits: false, retry: false, clock: new FakeClock() });
+    const response = await client.request('/test/flaky', 'GET', { retry: { maxRetries: 3, retryNonIdempotent: true } });
+
+    assert.equal(response.success, false);
+    assert.equal(requests.length, 1);
+  });
+});
+
+test('the client does not retry a 400', async () => {
+  await withServer([{ status: 400, body: { ErrorInformation: { message: 'Invalid value' } } }], async (baseUrl, requests) => {
+    const response = await createClient(baseUrl, new FakeClock()).request('/test/invalid', 'GET');
+
+    assert.equal(response.success, false);
+    assert.equal(response.error?.message, 'Invalid value');
+    assert.equal(requests.length, 1);
+  });
+});
+
+test('retry and timeout settings must be numbers', () => {
+  const settings = (env: Record<string, string>) => {
+    const previous = { ...process.env };
+    Object.assign(process.env, env);
+    try {
+      return readClientSettings();
+    } finally {
+      process.env = previous;
+    }
+  };
+
+  assert.deepEqual(settings({ FORTNOX_MAX_RETRIES: '0' }).retry, { maxRetries: 0 });
+  assert.equal(settings({ FORTNOX_TIMEOUT_MS: '2500' }).timeoutMs, 2_500);
+  assert.throws(() => settings({ FORTNOX_MAX_RETRIES: 'three' }), /Invalid FORTNOX_MAX_RETRIES "three"/);
+  assert.throws(() => settings({ FORTNOX_MAX_RETRIES: '-1' }), /Invalid FORTNOX_MAX_RETRIES "-1"/);
+  assert.throws(() => settings({ FORTNOX_TIMEOUT_MS: 'soon' }), /Invalid FORTNOX_TIMEOUT_MS "soon"/);
+  assert.throws(() => settings({ FORTNOX_TIMEOUT_MS: '-100' }), /Invalid FORTNOX_TIMEOUT_MS "-100"/);
+});
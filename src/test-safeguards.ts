@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for risk classification, the confirmation rule of call_endpoint and confirmation tokens
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyRisk, confirmationStep, ConfirmationTokens } from './safeguards.js';
+
+const deleteCustomer = { profile: 'default', method: 'DELETE', path: '/3/customers/{CustomerNumber}', pathParams: { CustomerNumber: '1' } };
+
+test('classifies calls by method and action', () => {
+  assert.equal(classifyRisk({ method: 'GET', path: '/3/customers' }), 'read');
+  assert.equal(classifyRisk({ method: 'POST', path: '/3/customers' }), 'write');
+  assert.equal(classifyRisk({ method: 'DELETE', path: '/3/customers/{CustomerNumber}' }), 'destructive');
+  assert.equal(classifyRisk({ method: 'PUT', path: '/3/invoices/{DocumentNumber}/bookkeep' }), 'irreversible-accounting');
+});
+
+test('approving, voiding and completing documents are irreversible', () => {
+  for (const path of [
+    '/3/supplierinvoices/{GivenNumber}/approvalbookkeep',
+    '/api/warehouse/deliveries-v1/outbounddeliveries/{id}/void',
+    '/api/warehouse/documentdeliveries/custom/inbound-v1/{type}/{id}/void',
+    '/api/warehouse/purchaseorders-v1/{id}/complete',
+    '/api/warehouse/purchaseorders-v1/{id}/dropshipcomplete',
+    '/api/warehouse/incominggoods-v1/{id}/completed',
+  ]) {
+    assert.equal(classifyRisk({ method: 'PUT', path }), 'irreversible-accounting', path);
+  }
+});
+
+test('risky calls without a token always get a dry run', () => {
+  assert.equal(confirmationStep('destructive', {}), 'dry-run');
+  assert.equal(confirmationStep('destructive', { dryRun: false }), 'dry-run');
+  assert.equal(confirmationStep('irreversible-accounting', { dryRun: false }), 'dry-run');
+});
+
+test('dryRun can force a dry run but never skip one', () => {
+  assert.equal(confirmationStep('read', { dryRun: true }), 'dry-run');
+  assert.equal(confirmationStep('destructive', { dryRun: true, confirmationToken: 'token' }), 'dry-run');
+  assert.equal(confirmationStep('write', { dryRun: false }), 'send');
+  assert.equal(confirmationStep('read', {}), 'send');
+});
+
+test('a confirmation token is checked before the call is sent', () => {
+  assert.equal(confirmationStep('destructive', { confirmationToken: 'token' }), 'confirm');
+  assert.equal(confirmationStep('write', { confirmationToken: 'token' }), 'confirm');
+});
+
+test('a confirmation token is valid once', () => {
+  const tokens = new ConfirmationTokens();
+  const { token } = tokens.issue(deleteCustomer);
+
+  assert.equal(tokens.consume(token, deleteCustomer), true);
+  assert.equal(tokens.consume(token, deleteCustomer), false);
+});
+
+test('a confirmation token only matches the request it was issued for', () => {
+  const tokens = new ConfirmationTokens();
+  const { token } = tokens.issue(deleteCustomer);
+
+  assert.equal(tokens.consume(token, { ...deleteCustomer, pathParams: { CustomerNumber: '2' } }), false);
+  assert.equal(tokens.consume(token, { ...deleteCustomer, profile: 'other' }), false);
+  // Key order does not matter
+  assert.equal(tokens.consume(token, { pathParams: { CustomerNumber: '1' }, path: deleteCustomer.path, method: 'DELETE', profile: 'default' }), true);
+});
+
+test('a confirmation token expires', () => {
+  const tokens = new ConfirmationTokens({ ttlMs: 0 });
+  const { token } = tokens.issue(deleteCustomer);
+
+  assert.equal(tokens.consume(token, deleteCustomer), false);
+});
+
+test('forged and malformed tokens are rejected', () => {
+  const tokens = new ConfirmationTokens();
+  const { token, expiresAt } = tokens.issue(deleteCustomer);
+  const other = new ConfirmationTokens().issue(deleteCustomer).token;
+
+  assert.equal(tokens.consume(other, deleteCustomer), false);
+  assert.equal(tokens.consume(`${expiresAt + 60_000}.${token.split('.')[1]}`, deleteCustomer), false);
+  assert.equal(tokens.consume('not-a-token', deleteCustomer), false);
+});
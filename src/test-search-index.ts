@@ -0,0 +1,24 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for ranked endpoint search
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getOpenAPIParser } from './openapi-parser.js';
+import { SearchIndex } from './search-index.js';
+
+const index = new SearchIndex(getOpenAPIParser().getAllEndpoints());
+
+test('Swedish synonyms find the English endpoints', () => {
+  const results = index.search('faktura');
+  assert.ok(results.length > 0);
+  assert.match(results[0].endpoint.path, /invoice/);
+});
+
+test('keywords named like Object.prototype members are plain search terms', () => {
+  for (const keyword of ['constructor', 'toString', 'hasOwnProperty', '__proto__']) {
+    assert.doesNotThrow(() => index.search(keyword), keyword);
+  }
+});
@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for the change kinds the spec differ reports for enums
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OpenAPIParser, OpenAPISpec } from './openapi-parser.js';
+import { SpecDiffer, SpecChange } from './spec-differ.js';
+
+function specWithStatus(status: { type: string; enum?: string[] }): OpenAPISpec {
+  return {
+    openapi: '3.0.1',
+    info: { title: 'Test', description: '', version: '1' },
+    servers: [],
+    paths: {},
+    components: { schemas: { Invoice: { type: 'object', properties: { Status: status } } } },
+  };
+}
+
+function diffStatus(before: { type: string; enum?: string[] }, after: { type: string; enum?: string[] }): SpecChange[] {
+  return new SpecDiffer(new OpenAPIParser(specWithStatus(before)), new OpenAPIParser(specWithStatus(after))).diff().changes;
+}
+
+test('a new enum restriction is enum-added and breaking', () => {
+  const [change] = diffStatus({ type: 'string' }, { type: 'string', enum: ['draft', 'sent'] });
+  assert.equal(change.kind, 'enum-added');
+  assert.equal(change.breaking, true);
+});
+
+test('a dropped enum restriction is enum-removed and not breaking', () => {
+  const [change] = diffStatus({ type: 'string', enum: ['draft', 'sent'] }, { type: 'string' });
+  assert.equal(change.kind, 'enum-removed');
+  assert.equal(change.breaking, false);
+});
+
+test('values added to and removed from an enum keep their own kinds', () => {
+  const changes = diffStatus({ type: 'string', enum: ['draft', 'sent'] }, { type: 'string', enum: ['draft', 'paid'] });
+  assert.deepEqual(changes.map(change => [change.kind, change.breaking]), [
+    ['enum-values-removed', true],
+    ['enum-values-added', false],
+  ]);
+});
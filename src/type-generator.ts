@@ -0,0 +1,199 @@
+import { OpenAPIParser, FortnoxEndpoint, Schema, schemaNameFromRef } from './openapi-parser.js';
+
+export interface TypeSelection {
+  /** Only schemas reachable from this endpoint */
+  endpoint?: FortnoxEndpoint;
+  /** Only schemas reachable from endpoints with this tag */
+  tag?: string;
+}
+
+const INDENT = '  ';
+
+/**
+ * Generates TypeScript interfaces from components.schemas
+ */
+export class TypeGenerator {
+  private parser: OpenAPIParser;
+
+  constructor(parser: OpenAPIParser) {
+    this.parser = parser;
+  }
+
+  /**
+   * Names of the schemas to generate, sorted alphabetically
+   * Without a selection every schema in components.schemas is included.
+   */
+  selectSchemaNames(selection: TypeSelection = {}): string[] {
+    const endpoints = selection.endpoint
+      ? [selection.endpoint]
+      : selection.tag
+        ? this.parser.getEndpointsByTag(selection.tag)
+        : undefined;
+
+    if (!endpoints) {
+      return Object.keys(this.parser.getSpec().components?.schemas || {}).sort();
+    }
+
+    const names = new Set<string>();
+    for (const endpoint of endpoints) {
+      const roots: Schema[] = [
+        ...endpoint.parameters.map(p => p.schema).filter(Boolean),
+        ...(endpoint.requestBodySchema ? [endpoint.requestBodySchema] : []),
+        ...(endpoint.responseSchema ? [endpoint.responseSchema] : []),
+      ];
+      for (const root of roots) {
+        this.parser.getReferencedSchemaNames(root).forEach(name => names.add(name));
+      }
+    }
+
+    return Array.from(names).sort();
+  }
+
+  /**
+   * Render TypeScript declarations for the selected schemas
+   */
+  generate(selection: TypeSelection = {}): string {
+    const names = this.selectSchemaNames(selection);
+    const spec = this.parser.getSpec();
+
+    const header = [
+      '/**',
+      ` * Generated from ${spec.info.title} ${spec.info.version || ''}`.trimEnd(),
+      ' * Do not edit by hand - regenerate with `fortnox-doc-mcp generate-types`',
+      ' */',
+    ].join('\n');
+
+    const declarations = names
+      .map(name => {
+        const schema = this.parser.resolveSchemaRef(`#/components/schemas/${name}`);
+        return schema ? this.generateDeclaration(name, schema) : undefined;
+      })
+      .filter((declaration): declaration is string => declaration !== undefined);
+
+    return `${header}\n\n${declarations.join('\n\n')}\n`;
+  }
+
+  private generateDeclaration(name: string, schema: Schema): string {
+    const typeName = toTypeName(name);
+    const doc = this.renderDoc(schema, '', `Schema: ${name}`);
+
+    if (schema.type === 'object' || schema.properties) {
+      return `${doc}export interface ${typeName} ${this.renderObject(schema, '')}`;
+    }
+
+    return `${doc}export type ${typeName} = ${this.renderType(schema, '')};`;
+  }
+
+  private renderType(schema: Schema, indent: string): string {
+    if (schema.$ref) {
+      return toTypeName(schemaNameFromRef(schema.$ref));
+    }
+
+    if (schema.enum && schema.enum.length > 0) {
+      return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+    }
+
+    switch (schema.type) {
+      case 'string':
+        return 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'array': {
+        const itemType = schema.items ? this.renderType(schema.items, indent) : 'unknown';
+        return /[|{]/.test(itemType) ? `Array<${itemType}>` : `${itemType}[]`;
+      }
+      case 'object':
+      case undefined:
+        if (schema.properties) {
+          return this.renderObject(schema, indent);
+        }
+        if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+          return `Record<string, ${this.renderType(schema.additionalProperties, indent)}>`;
+        }
+        return schema.type === 'object' ? 'Record<string, unknown>' : 'unknown';
+      default:
+        return 'unknown';
+    }
+  }
+
+  private renderObject(schema: Schema, indent: string): string {
+    const inner = indent + INDENT;
+    const required = new Set(schema.required || []);
+    const lines: string[] = ['{'];
+
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      const doc = this.renderDoc(property, inner);
+      const optional = required.has(name) ? '' : '?';
+      lines.push(`${doc}${inner}${toPropertyKey(name)}${optional}: ${this.renderType(property, inner)};`);
+    }
+
+    if (schema.additionalProperties) {
+      const valueType = typeof schema.additionalProperties === 'object'
+        ? this.renderType(schema.additionalProperties, inner)
+        : 'unknown';
+      lines.push(`${inner}[key: string]: ${schema.properties ? 'unknown' : valueType};`);
+    }
+
+    lines.push(`${indent}}`);
+    return lines.join('\n');
+  }
+
+  /**
+   * JSDoc built from the description and constraints; empty when there is nothing to say
+   */
+  private renderDoc(schema: Schema, indent: string, title?: string): string {
+    const lines: string[] = [];
+
+    if (title) {
+      lines.push(title);
+    }
+    if (schema.description) {
+      lines.push(...schema.description.trim().split('\n').map(line => line.trim()));
+    }
+    if (schema.format) {
+      lines.push(`@format ${schema.format}`);
+    }
+    if (schema.minLength !== undefined) {
+      lines.push(`@minLength ${schema.minLength}`);
+    }
+    if (schema.maxLength !== undefined) {
+      lines.push(`@maxLength ${schema.maxLength}`);
+    }
+    if (schema.minimum !== undefined) {
+      lines.push(`@minimum ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined) {
+      lines.push(`@maximum ${schema.maximum}`);
+    }
+    if (schema.pattern) {
+      lines.push(`@pattern ${schema.pattern}`);
+    }
+
+    if (lines.length === 0) {
+      return '';
+    }
+
+    const body = lines.map(line => `${indent} * ${line.replace(/\*\//g, '*\\/')}`.trimEnd()).join('\n');
+    return `${indent}/**\n${body}\n${indent} */\n`;
+  }
+}
+
+/**
+ * Convert a schema name to a PascalCase TypeScript identifier
+ * e.g. fortnox_Invoice_Wrap -> FortnoxInvoiceWrap, v1.Date -> V1Date
+ */
+export function toTypeName(schemaName: string): string {
+  const name = schemaName
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function toPropertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
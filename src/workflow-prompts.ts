@@ -0,0 +1,184 @@
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { OpenAPIParser, FortnoxEndpoint } from './openapi-parser.js';
+import { SchemaRenderer } from './schema-renderer.js';
+
+interface WorkflowStep {
+  method: string;
+  path: string;
+  /** What the step does in this workflow, and where its inputs come from */
+  purpose: string;
+}
+
+interface Workflow {
+  name: string;
+  description: string;
+  arguments: Array<{ name: string; description: string; required: boolean }>;
+  goal: (args: Record<string, string>) => string;
+  steps: WorkflowStep[];
+}
+
+const WORKFLOWS: Workflow[] = [
+  {
+    name: 'create_and_send_invoice',
+    description: 'Create a customer (unless it exists), invoice it, bookkeep the invoice and email it',
+    arguments: [
+      { name: 'customerName', description: 'Name of the customer to invoice', required: true },
+      { name: 'customerEmail', description: 'Email address the invoice is sent to', required: false },
+      { name: 'invoiceRows', description: 'What to invoice, e.g. "10 hours consulting at 1200 SEK"', required: false },
+    ],
+    goal: args => `Invoice the customer "${args.customerName}"${args.invoiceRows ? ` for: ${args.invoiceRows}` : ''}, bookkeep the invoice and email it${args.customerEmail ? ` to ${args.customerEmail}` : ''}.`,
+    steps: [
+      { method: 'GET', path: '/3/customers', purpose: 'Look for an existing customer with this name (query parameter "name") and reuse its CustomerNumber' },
+      { method: 'POST', path: '/3/customers', purpose: 'Only when no customer was found: create it and note the returned CustomerNumber' },
+      { method: 'POST', path: '/3/invoices', purpose: 'Create the invoice for the CustomerNumber with one InvoiceRows entry per line; note the returned DocumentNumber' },
+      { method: 'PUT', path: '/3/invoices/{DocumentNumber}/bookkeep', purpose: 'Bookkeep the invoice so it can no longer be changed' },
+      { method: 'GET', path: '/3/invoices/{DocumentNumber}/email', purpose: 'Send the invoice to the email address on the customer' },
+    ],
+  },
+  {
+    name: 'register_invoice_payment',
+    description: 'Register and bookkeep a payment received for a customer invoice',
+    arguments: [
+      { name: 'invoiceNumber', description: 'DocumentNumber of the customer invoice', required: true },
+      { name: 'amount', description: 'Amount paid (defaults to the remaining balance)', required: false },
+      { name: 'paymentDate', description: 'Date of the payment (YYYY-MM-DD)', required: false },
+    ],
+    goal: args => `Register a payment${args.amount ? ` of ${args.amount}` : ''} for customer invoice ${args.invoiceNumber}${args.paymentDate ? ` paid on ${args.paymentDate}` : ''} and bookkeep it.`,
+    steps: [
+      { method: 'GET', path: '/3/invoices/{DocumentNumber}', purpose: 'Check the invoice exists, is bookkept and read its Balance' },
+      { method: 'POST', path: '/3/invoicepayments', purpose: 'Create the payment with InvoiceNumber set to the invoice DocumentNumber; note the returned Number' },
+      { method: 'PUT', path: '/3/invoicepayments/{Number}/bookkeep', purpose: 'Bookkeep the payment' },
+    ],
+  },
+  {
+    name: 'register_supplier_invoice_payment',
+    description: 'Register and bookkeep a payment of a supplier invoice',
+    arguments: [
+      { name: 'supplierInvoiceNumber', description: 'GivenNumber of the supplier invoice', required: true },
+      { name: 'amount', description: 'Amount paid (defaults to the remaining balance)', required: false },
+      { name: 'paymentDate', description: 'Date of the payment (YYYY-MM-DD)', required: false },
+    ],
+    goal: args => `Register a payment${args.amount ? ` of ${args.amount}` : ''} of supplier invoice ${args.supplierInvoiceNumber}${args.paymentDate ? ` paid on ${args.paymentDate}` : ''} and bookkeep it.`,
+    steps: [
+      { method: 'GET', path: '/3/supplierinvoices/{GivenNumber}', purpose: 'Check the supplier invoice exists and read its Balance' },
+      { method: 'POST', path: '/3/supplierinvoicepayments', purpose: 'Create the payment with InvoiceNumber set to the supplier invoice GivenNumber; note the returned Number' },
+      { method: 'PUT', path: '/3/supplierinvoicepayments/{Number}/bookkeep', purpose: 'Bookkeep the payment' },
+    ],
+  },
+  {
+    name: 'invoice_order',
+    description: 'Create an order for a customer and turn it into an invoice',
+    arguments: [
+      { name: 'customerNumber', description: 'CustomerNumber of an existing customer', required: true },
+      { name: 'orderRows', description: 'What was ordered, e.g. "2 x article 1001"', required: false },
+    ],
+    goal: args => `Create an order for customer ${args.customerNumber}${args.orderRows ? ` containing: ${args.orderRows}` : ''} and invoice it.`,
+    steps: [
+      { method: 'POST', path: '/3/orders', purpose: 'Create the order with one OrderRows entry per line; note the returned DocumentNumber' },
+      { method: 'PUT', path: '/3/orders/{DocumentNumber}/createinvoice', purpose: 'Create an invoice from the order; the response holds the new invoice number' },
+    ],
+  },
+];
+
+/**
+ * Multi-step Fortnox workflows as MCP prompts
+ * Endpoint summaries and required fields are read from the loaded spec every time a prompt is rendered.
+ */
+export class WorkflowPrompts {
+  private parser: OpenAPIParser;
+  private renderer: SchemaRenderer;
+
+  constructor(parser: OpenAPIParser) {
+    this.parser = parser;
+    this.renderer = new SchemaRenderer(parser);
+  }
+
+  list(): Prompt[] {
+    return WORKFLOWS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+  }
+
+  /**
+   * Render a workflow prompt, throwing when it does not exist or a required argument is missing
+   */
+  render(name: string, args: Record<string, string> = {}): GetPromptResult {
+    const workflow = WORKFLOWS.find(w => w.name === name);
+    if (!workflow) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const missing = workflow.arguments.filter(arg => arg.required && !args[arg.name]);
+    if (missing.length > 0) {
+      throw new Error(`Missing required argument(s) for ${name}: ${missing.map(arg => arg.name).join(', ')}`);
+    }
+
+    const lines = [
+      `# ${workflow.description}`,
+      '',
+      `**Goal**: ${workflow.goal(args)}`,
+      '',
+      'Run these Fortnox API calls in order. Use the output of each step as input for the next, and stop to report back if a call fails.',
+      '',
+    ];
+
+    workflow.steps.forEach((step, index) => {
+      lines.push(...this.renderStep(step, index + 1), '');
+    });
+
+    lines.push('Use `get_endpoint_details` for the full field list of a step and `validate_request` to check a body before sending it.');
+
+    return {
+      description: workflow.description,
+      messages: [
+        {
+          role: 'user',
+          content: { type: 'text', text: lines.join('\n') },
+        },
+      ],
+    };
+  }
+
+  private renderStep(step: WorkflowStep, number: number): string[] {
+    const endpoint = this.parser.getAllEndpoints().find(e => e.method === step.method && e.path === step.path);
+    const lines = [`## Step ${number}: \`${step.method} ${step.path}\``, '', step.purpose];
+
+    if (!endpoint) {
+      lines.push('', '> Warning: this endpoint is not in the loaded OpenAPI spec; check with `search_endpoints` before calling it.');
+      return lines;
+    }
+
+    if (endpoint.summary) {
+      lines.push(`(${endpoint.summary})`);
+    }
+    if (endpoint.deprecated) {
+      lines.push('', '> Warning: this endpoint is deprecated.');
+    }
+
+    const requiredParams = endpoint.parameters.filter(p => p.required);
+    if (requiredParams.length > 0) {
+      lines.push('', `**Required parameters**: ${requiredParams.map(p => `\`${p.name}\` (${p.in})`).join(', ')}`);
+    }
+
+    lines.push(...this.renderRequiredFields(endpoint));
+    return lines;
+  }
+
+  private renderRequiredFields(endpoint: FortnoxEndpoint): string[] {
+    if (!endpoint.requestBodySchema) {
+      return [];
+    }
+
+    const unwrapped = this.renderer.unwrap(endpoint.requestBodySchema);
+    const required = this.renderer.flatten(unwrapped.schema).filter(field => field.required);
+    const wrapper = unwrapped.wrapperKey ? ` inside \`{ "${unwrapped.wrapperKey}": ... }\`` : '';
+
+    if (required.length === 0) {
+      return ['', `**Body**${wrapper}: no required fields`];
+    }
+
+    return [
+      '',
+      `**Required body fields**${wrapper}:`,
+      ...required.map(field => `- \`${field.path}\` (${field.type}${field.constraints.length > 0 ? `, ${field.constraints.join(', ')}` : ''})`),
+    ];
+  }
+}